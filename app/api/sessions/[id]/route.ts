@@ -0,0 +1,32 @@
+import { checkApiAccess, errorResponse, jsonResponse, optionsResponse } from "@/lib/apiResponses";
+import { deleteServerSession, getServerSession } from "@/lib/sessionFileStore";
+import { SESSION_ID_PATTERN } from "@/lib/sessionSchema";
+
+type Context = { params: Promise<{ id: string }> };
+
+export function OPTIONS(request: Request) {
+  return optionsResponse(request);
+}
+
+export async function GET(request: Request, { params }: Context) {
+  const denied = checkApiAccess(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  if (!SESSION_ID_PATTERN.test(id)) return errorResponse(request, "Invalid session id.", 400);
+
+  const record = await getServerSession(id);
+  return record ? jsonResponse(request, record) : errorResponse(request, "Session not found.", 404);
+}
+
+export async function DELETE(request: Request, { params }: Context) {
+  const denied = checkApiAccess(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  if (!SESSION_ID_PATTERN.test(id)) return errorResponse(request, "Invalid session id.", 400);
+
+  return (await deleteServerSession(id))
+    ? jsonResponse(request, { id, deleted: true })
+    : errorResponse(request, "Session not found.", 404);
+}
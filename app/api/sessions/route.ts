@@ -0,0 +1,71 @@
+import { checkApiAccess, errorResponse, jsonResponse, optionsResponse } from "@/lib/apiResponses";
+import { listServerSessions, putServerSession } from "@/lib/sessionFileStore";
+import { parseSessionUpload } from "@/lib/sessionSchema";
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+// Reads the body as text, stopping once it passes maxBytes (the content-length
+// header is optional and can't be trusted). Returns null for a body that is too large.
+async function readBodyText(request: Request, maxBytes: number) {
+  if (!request.body) return "";
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+export function OPTIONS(request: Request) {
+  return optionsResponse(request);
+}
+
+export async function GET(request: Request) {
+  const denied = checkApiAccess(request);
+  if (denied) return denied;
+
+  return jsonResponse(request, { sessions: await listServerSessions() });
+}
+
+export async function POST(request: Request) {
+  const denied = checkApiAccess(request);
+  if (denied) return denied;
+
+  if (Number(request.headers.get("content-length") ?? 0) > MAX_BODY_BYTES) {
+    return errorResponse(request, "Session is too large.", 413);
+  }
+
+  const text = await readBodyText(request, MAX_BODY_BYTES);
+  if (text === null) return errorResponse(request, "Session is too large.", 413);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return errorResponse(request, "Body is not valid JSON.", 400);
+  }
+
+  let upload;
+  try {
+    upload = parseSessionUpload(data);
+  } catch (e: unknown) {
+    return errorResponse(request, e instanceof Error ? e.message : "Invalid session.", 400);
+  }
+
+  let created;
+  try {
+    created = await putServerSession(upload.session, upload.machine);
+  } catch (e: unknown) {
+    const detail = e instanceof Error ? e.message : String(e);
+    return errorResponse(request, `Could not store the session: ${detail}`, 500);
+  }
+  return jsonResponse(request, { id: upload.session.id, created }, created ? 201 : 200);
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { DEFAULT_GRADING_PROFILE, type GradingProfile } from "@/lib/grading";
+import {
+  createProfileId,
+  findProfile,
+  loadActiveProfileId,
+  loadGradingProfiles,
+  parseGradingRules,
+  saveActiveProfileId,
+  saveGradingProfiles,
+} from "@/lib/gradingProfiles";
+
+export default function GradingProfilesPage() {
+  const [profiles, setProfiles] = useState<GradingProfile[]>([DEFAULT_GRADING_PROFILE]);
+  const [activeId, setActiveId] = useState(DEFAULT_GRADING_PROFILE.id);
+  const [selectedId, setSelectedId] = useState(DEFAULT_GRADING_PROFILE.id);
+  const [name, setName] = useState(DEFAULT_GRADING_PROFILE.name);
+  const [rulesText, setRulesText] = useState(JSON.stringify(DEFAULT_GRADING_PROFILE.rules, null, 2));
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  function select(profile: GradingProfile) {
+    setSelectedId(profile.id);
+    setName(profile.name);
+    setRulesText(JSON.stringify(profile.rules, null, 2));
+    setMessage(null);
+  }
+
+  useEffect(() => {
+    const loaded = loadGradingProfiles();
+    const active = findProfile(loaded, loadActiveProfileId());
+    setProfiles(loaded);
+    setActiveId(active.id);
+    select(active);
+  }, []);
+
+  const selected = findProfile(profiles, selectedId);
+  const isBuiltIn = selected.id === DEFAULT_GRADING_PROFILE.id;
+
+  function updateProfiles(next: GradingProfile[]) {
+    setProfiles(next);
+    saveGradingProfiles(next);
+  }
+
+  function makeActive(id: string) {
+    setActiveId(id);
+    saveActiveProfileId(id);
+  }
+
+  // Returns the edited profile, or null after reporting why it is invalid.
+  function readEditor(id: string): GradingProfile | null {
+    try {
+      if (name.trim() === "") throw new Error("Name must not be empty.");
+      let data: unknown;
+      try {
+        data = JSON.parse(rulesText);
+      } catch {
+        throw new Error("Rules are not valid JSON.");
+      }
+      return { id, name: name.trim(), rules: parseGradingRules(data) };
+    } catch (e: unknown) {
+      setMessage({ text: e instanceof Error ? e.message : "Invalid profile.", error: true });
+      return null;
+    }
+  }
+
+  function onSave() {
+    if (isBuiltIn) return;
+    const profile = readEditor(selected.id);
+    if (!profile) return;
+    updateProfiles(profiles.map((p) => (p.id === profile.id ? profile : p)));
+    setMessage({ text: "Profile saved.", error: false });
+  }
+
+  function onSaveAsNew() {
+    const profile = readEditor(createProfileId());
+    if (!profile) return;
+    if (isBuiltIn && profile.name === DEFAULT_GRADING_PROFILE.name) profile.name = `${profile.name} (copy)`;
+    updateProfiles([...profiles, profile]);
+    select(profile);
+    setMessage({ text: "Profile created.", error: false });
+  }
+
+  function onDelete() {
+    if (isBuiltIn) return;
+    if (!window.confirm(`Delete grading profile "${selected.name}"?`)) return;
+    updateProfiles(profiles.filter((p) => p.id !== selected.id));
+    if (activeId === selected.id) makeActive(DEFAULT_GRADING_PROFILE.id);
+    select(DEFAULT_GRADING_PROFILE);
+  }
+
+  return (
+    <div style={{ background: "#000", color: "#fff", minHeight: "100vh", padding: 20 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 16, flexWrap: "wrap" }}>
+        <h1 style={{ margin: 0 }}>Grading Profiles</h1>
+        <Link href="/" style={{ color: "#00bfff" }}>
+          Back to monitor
+        </Link>
+        <Link href="/history" style={{ color: "#00bfff" }}>
+          Session history
+        </Link>
+      </div>
+
+      <div style={{ marginTop: 8, opacity: 0.75, maxWidth: 760, lineHeight: 1.6 }}>
+        A profile sets every cutoff used to score a session. Penalty bands apply when a value is above (or below) the
+        cutoff, and only the most severe matching band of each rule counts. The built-in default cannot be changed;
+        save a copy to customize it. Past sessions can be re-graded from the history page.
+      </div>
+
+      <div style={{ display: "flex", gap: 14, alignItems: "center", marginTop: 16, flexWrap: "wrap" }}>
+        <label style={{ opacity: 0.9 }}>
+          Profile
+          <select
+            value={selectedId}
+            onChange={(e) => select(findProfile(profiles, e.target.value))}
+            style={{ marginLeft: 8, padding: "4px 6px" }}
+          >
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+                {p.id === activeId ? " (active)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={() => makeActive(selected.id)}
+          disabled={selected.id === activeId}
+          style={{ padding: "6px 12px", cursor: selected.id === activeId ? "not-allowed" : "pointer" }}
+        >
+          Use for new sessions
+        </button>
+      </div>
+
+      <div
+        style={{
+          marginTop: 16,
+          width: "min(760px, 100%)",
+          background: "#111",
+          border: "1px solid #333",
+          borderRadius: 14,
+          padding: 16,
+        }}
+      >
+        <label style={{ opacity: 0.9 }}>
+          Name
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            style={{ marginLeft: 8, padding: "4px 6px", width: 260 }}
+          />
+        </label>
+
+        <div style={{ marginTop: 12, opacity: 0.9 }}>Rules (JSON)</div>
+        <textarea
+          value={rulesText}
+          onChange={(e) => setRulesText(e.target.value)}
+          spellCheck={false}
+          style={{
+            marginTop: 6,
+            width: "100%",
+            minHeight: 420,
+            background: "#0b0b0b",
+            color: "#fff",
+            border: "1px solid #222",
+            borderRadius: 10,
+            padding: 10,
+            fontFamily: "monospace",
+            fontSize: 13,
+          }}
+        />
+
+        <div style={{ display: "flex", gap: 10, marginTop: 12, flexWrap: "wrap" }}>
+          {!isBuiltIn && (
+            <button onClick={onSave} style={{ padding: "6px 12px", cursor: "pointer" }}>
+              Save
+            </button>
+          )}
+          <button onClick={onSaveAsNew} style={{ padding: "6px 12px", cursor: "pointer" }}>
+            Save as new profile
+          </button>
+          <button onClick={() => select(selected)} style={{ padding: "6px 12px", cursor: "pointer" }}>
+            Discard changes
+          </button>
+          {!isBuiltIn && (
+            <button onClick={onDelete} style={{ padding: "6px 12px", cursor: "pointer" }}>
+              Delete
+            </button>
+          )}
+        </div>
+
+        {message && (
+          <div style={{ marginTop: 12, color: message.error ? "#ff4d4d" : "#00ff88" }}>{message.text}</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,414 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import BlinkTimeline from "@/components/BlinkTimeline";
+import ScoreBreakdown from "@/components/ScoreBreakdown";
+import ServerSyncPanel from "@/components/ServerSyncPanel";
+import SessionExportButtons from "@/components/SessionExportButtons";
+import { DEFAULT_GRADING_PROFILE, type GradingProfile } from "@/lib/grading";
+import { findProfile, loadGradingProfiles, regradeSession } from "@/lib/gradingProfiles";
+import { formatDateTime, formatDuration, formatMs, formatPercentChange, formatSecondsMs } from "@/lib/format";
+import {
+  DEFAULT_SERVER_SYNC_SETTINGS,
+  loadServerSyncSettings,
+  saveServerSyncSettings,
+  type ServerSyncSettings,
+} from "@/lib/serverSync";
+import type { StoredSession } from "@/lib/session";
+import { downloadFile, parseSessionExport, sessionsToJson, summariesToCsv } from "@/lib/sessionExport";
+import { clearSessions, deleteSession, listSessions, saveSession } from "@/lib/sessionStore";
+
+const GRADE_OPTIONS = ["all", "A", "B", "C", "D", "F", "N/A"] as const;
+type GradeFilter = (typeof GRADE_OPTIONS)[number];
+
+function startOfDay(dateStr: string) {
+  return new Date(`${dateStr}T00:00:00`).getTime();
+}
+
+function endOfDay(dateStr: string) {
+  return new Date(`${dateStr}T23:59:59.999`).getTime();
+}
+
+const cellStyle = { padding: "8px 10px", borderBottom: "1px solid #222", textAlign: "left" as const };
+
+export default function HistoryPage() {
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [gradeFilter, setGradeFilter] = useState<GradeFilter>("all");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<GradingProfile[]>([DEFAULT_GRADING_PROFILE]);
+  const [regradeProfileId, setRegradeProfileId] = useState(DEFAULT_GRADING_PROFILE.id);
+  const [serverSync, setServerSync] = useState<ServerSyncSettings>(DEFAULT_SERVER_SYNC_SETTINGS);
+  const [showServerSync, setShowServerSync] = useState(false);
+
+  async function refresh() {
+    try {
+      setSessions(await listSessions());
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to load session history.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void refresh();
+    setProfiles(loadGradingProfiles());
+    setServerSync(loadServerSyncSettings());
+  }, []);
+
+  async function onDelete(id: string) {
+    if (!window.confirm("Delete this session?")) return;
+    try {
+      await deleteSession(id);
+    } catch {}
+    await refresh();
+  }
+
+  async function onClearAll() {
+    if (!window.confirm("Delete all saved sessions? This cannot be undone.")) return;
+    try {
+      await clearSessions();
+    } catch {}
+    await refresh();
+  }
+
+  async function onImport(file: File) {
+    try {
+      const imported = parseSessionExport(await file.text());
+      for (const s of imported) await saveSession(s);
+      setImportMessage(`Imported ${imported.length} session${imported.length === 1 ? "" : "s"}.`);
+      await refresh();
+    } catch (e: unknown) {
+      setImportMessage(`Import failed: ${e instanceof Error ? e.message : "unknown error"}`);
+    }
+  }
+
+  async function onRegrade() {
+    const profile = findProfile(profiles, regradeProfileId);
+    const count = filtered.length;
+    if (!window.confirm(`Re-grade ${count} shown session${count === 1 ? "" : "s"} with "${profile.name}"?`)) return;
+    try {
+      for (const s of filtered) await saveSession(regradeSession(s, profile));
+      setImportMessage(`Re-graded ${count} session${count === 1 ? "" : "s"} with "${profile.name}".`);
+    } catch (e: unknown) {
+      setImportMessage(`Re-grading failed: ${e instanceof Error ? e.message : "unknown error"}`);
+    }
+    await refresh();
+  }
+
+  const filtered = sessions.filter((s) => {
+    if (fromDate && s.startedAt < startOfDay(fromDate)) return false;
+    if (toDate && s.startedAt > endOfDay(toDate)) return false;
+    if (gradeFilter !== "all" && s.summary.grade !== gradeFilter) return false;
+    return true;
+  });
+
+  return (
+    <div style={{ background: "#000", color: "#fff", minHeight: "100vh", padding: 20 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 16, flexWrap: "wrap" }}>
+        <h1 style={{ margin: 0 }}>Session History</h1>
+        <Link href="/" style={{ color: "#00bfff" }}>
+          Back to monitor
+        </Link>
+        <Link href="/trends" style={{ color: "#00bfff" }}>
+          Trends
+        </Link>
+        <Link href="/grading" style={{ color: "#00bfff" }}>
+          Grading profiles
+        </Link>
+      </div>
+
+      <div style={{ display: "flex", gap: 14, alignItems: "center", marginTop: 16, flexWrap: "wrap" }}>
+        <label style={{ opacity: 0.9 }}>
+          From
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            style={{ marginLeft: 8, padding: "4px 6px" }}
+          />
+        </label>
+
+        <label style={{ opacity: 0.9 }}>
+          To
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            style={{ marginLeft: 8, padding: "4px 6px" }}
+          />
+        </label>
+
+        <label style={{ opacity: 0.9 }}>
+          Grade
+          <select
+            value={gradeFilter}
+            onChange={(e) => setGradeFilter(e.target.value as GradeFilter)}
+            style={{ marginLeft: 8, padding: "4px 6px" }}
+          >
+            {GRADE_OPTIONS.map((g) => (
+              <option key={g} value={g}>
+                {g === "all" ? "All" : g}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={onClearAll}
+          disabled={sessions.length === 0}
+          style={{ padding: "6px 12px", cursor: sessions.length === 0 ? "not-allowed" : "pointer" }}
+        >
+          Delete all
+        </button>
+
+        <button
+          onClick={() => downloadFile("blink-sessions.json", sessionsToJson(filtered), "application/json")}
+          disabled={filtered.length === 0}
+          style={{ padding: "6px 12px", cursor: filtered.length === 0 ? "not-allowed" : "pointer" }}
+        >
+          Export shown as JSON
+        </button>
+
+        <button
+          onClick={() => downloadFile("blink-sessions.csv", summariesToCsv(filtered), "text/csv")}
+          disabled={filtered.length === 0}
+          style={{ padding: "6px 12px", cursor: filtered.length === 0 ? "not-allowed" : "pointer" }}
+        >
+          Export shown as CSV
+        </button>
+
+        <label style={{ opacity: 0.9 }}>
+          Re-grade with
+          <select
+            value={regradeProfileId}
+            onChange={(e) => setRegradeProfileId(e.target.value)}
+            style={{ marginLeft: 8, padding: "4px 6px" }}
+          >
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={() => void onRegrade()}
+          disabled={filtered.length === 0}
+          style={{ padding: "6px 12px", cursor: filtered.length === 0 ? "not-allowed" : "pointer" }}
+        >
+          Re-grade shown
+        </button>
+
+        <label style={{ opacity: 0.9 }}>
+          Import JSON
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void onImport(file);
+            }}
+            style={{ marginLeft: 8 }}
+          />
+        </label>
+
+        <button onClick={() => setShowServerSync((v) => !v)} style={{ padding: "6px 12px", cursor: "pointer" }}>
+          {showServerSync ? "Hide server sync" : "Server sync"}
+        </button>
+      </div>
+
+      {showServerSync && (
+        <ServerSyncPanel
+          settings={serverSync}
+          onChange={(next) => {
+            setServerSync(next);
+            saveServerSyncSettings(next);
+          }}
+          sessions={filtered}
+        />
+      )}
+
+      {error && <div style={{ marginTop: 16, color: "#ff4d4d" }}>Error: {error}</div>}
+      {importMessage && <div style={{ marginTop: 16, opacity: 0.9 }}>{importMessage}</div>}
+
+      <div
+        style={{
+          marginTop: 16,
+          background: "#111",
+          border: "1px solid #333",
+          borderRadius: 14,
+          padding: 16,
+          overflowX: "auto",
+        }}
+      >
+        {loading ? (
+          <div style={{ opacity: 0.8 }}>Loading sessions…</div>
+        ) : filtered.length === 0 ? (
+          <div style={{ opacity: 0.8 }}>
+            {sessions.length === 0 ? "No saved sessions yet." : "No sessions match the current filters."}
+          </div>
+        ) : (
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 15 }}>
+            <thead>
+              <tr style={{ opacity: 0.75 }}>
+                <th style={cellStyle}>Started</th>
+                <th style={cellStyle}>Duration</th>
+                <th style={cellStyle}>Blinks</th>
+                <th style={cellStyle}>Blinks / min</th>
+                <th style={cellStyle}>Alerts</th>
+                <th style={cellStyle}>Longest streak</th>
+                <th style={cellStyle}>Threshold</th>
+                <th style={cellStyle}>Baseline EAR</th>
+                <th style={cellStyle}>Score</th>
+                <th style={cellStyle} />
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.map((s) => (
+                <SessionRow
+                  key={s.id}
+                  session={s}
+                  expanded={expandedId === s.id}
+                  onToggle={() => setExpandedId(expandedId === s.id ? null : s.id)}
+                  onDelete={() => void onDelete(s.id)}
+                />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SessionRow({
+  session,
+  expanded,
+  onToggle,
+  onDelete,
+}: {
+  session: StoredSession;
+  expanded: boolean;
+  onToggle: () => void;
+  onDelete: () => void;
+}) {
+  const { summary } = session;
+
+  return (
+    <>
+      <tr onClick={onToggle} style={{ cursor: "pointer" }}>
+        <td style={cellStyle}>{formatDateTime(session.startedAt)}</td>
+        <td style={cellStyle}>{formatDuration(summary.totalSessionTimeMs)}</td>
+        <td style={cellStyle}>{summary.totalBlinks}</td>
+        <td style={cellStyle}>{summary.averageBlinksPerMinute.toFixed(1)}</td>
+        <td style={cellStyle}>{summary.totalAlerts}</td>
+        <td style={cellStyle}>{formatDuration(summary.longestNoBlinkMs)}</td>
+        <td style={cellStyle}>{session.noBlinkThreshold}s</td>
+        <td style={cellStyle}>{session.baselineEar === null ? "N/A" : session.baselineEar.toFixed(3)}</td>
+        <td style={cellStyle}>
+          {summary.score === null ? "N/A" : `${summary.score}/100`} ({summary.grade})
+        </td>
+        <td style={cellStyle}>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete();
+            }}
+            style={{ padding: "4px 10px", cursor: "pointer" }}
+          >
+            Delete
+          </button>
+        </td>
+      </tr>
+
+      {expanded && (
+        <tr>
+          <td colSpan={10} style={{ ...cellStyle, background: "#0b0b0b", lineHeight: 1.8 }}>
+            <div>
+              <b>Visible / hidden time:</b> {formatDuration(summary.totalVisibleTimeMs)} /{" "}
+              {formatDuration(summary.totalHiddenTimeMs)}
+            </div>
+            <div>
+              <b>Incomplete blinks:</b> {summary.incompleteBlinks}
+            </div>
+            <div>
+              <b>Per-eye blinks (L / R):</b> {summary.leftEyeBlinks} / {summary.rightEyeBlinks}
+              {summary.blinkAsymmetryIndex !== null && ` (asymmetry index ${summary.blinkAsymmetryIndex.toFixed(2)})`}
+              {" "}• <b>Winks:</b> {summary.winks} • <b>One-eye closures:</b> {summary.oneEyeClosures}
+            </div>
+            <div>
+              <b>Face visibility:</b> {summary.visibilityPercent.toFixed(1)}%
+            </div>
+            <div>
+              <b>Blink compliance:</b> {summary.blinkCompliancePercent.toFixed(1)}%
+            </div>
+            <div>
+              <b>Blink integral:</b> {formatSecondsMs(summary.blinkIntegralMs)}
+            </div>
+            <div>
+              <b>Blink duration:</b> mean {formatMs(summary.meanBlinkDurationMs)}, median{" "}
+              {formatMs(summary.medianBlinkDurationMs)}, p90 {formatMs(summary.p90BlinkDurationMs)} • <b>Slow blinks:</b>{" "}
+              {summary.slowBlinkFraction === null ? "N/A" : `${(summary.slowBlinkFraction * 100).toFixed(1)}%`}
+            </div>
+            <div>
+              <b>Blink phases (mean):</b> closing {formatMs(summary.meanClosingMs)}, closed{" "}
+              {formatMs(summary.meanClosedMs)}, reopening {formatMs(summary.meanReopeningMs)}
+            </div>
+            <div>
+              <b>Average blink spacing:</b> {formatSecondsMs(summary.averageBlinkSpacingMs)} (std dev{" "}
+              {formatSecondsMs(summary.blinkSpacingStdMs)})
+            </div>
+            <div>
+              <b>Baseline drift:</b>{" "}
+              {summary.baselineDriftPercent === null
+                ? "N/A"
+                : `${formatPercentChange(summary.baselineDriftPercent)} (largest ${formatPercentChange(
+                    summary.maxBaselineDriftPercent ?? 0,
+                  )})`}
+            </div>
+            {summary.totalCues > 0 && (
+              <div>
+                <b>Gentle cues:</b> {summary.totalCues} ({summary.cuesClearedBeforeAlert} cleared before the alarm
+                threshold)
+              </div>
+            )}
+            <div>
+              <b>Breaks (20-20-20):</b>{" "}
+              {summary.breakCompliancePercent === null
+                ? "no reminders due"
+                : `${summary.breaksTaken} taken, ${summary.breaksMissed} missed ` +
+                  `(${summary.breakCompliancePercent.toFixed(0)}%)`}
+              {summary.selfInitiatedBreaks > 0 && `, ${summary.selfInitiatedBreaks} without a reminder`}
+            </div>
+            <div>
+              <b>Why:</b> {summary.gradeReason} (graded with {summary.gradingProfileName})
+            </div>
+            <div style={{ marginTop: 8 }}>
+              <ScoreBreakdown factors={summary.scoreFactors} score={summary.score} />
+            </div>
+            <div style={{ marginTop: 8 }}>
+              <BlinkTimeline
+                events={summary.blinkEvents}
+                durationMs={summary.totalSessionTimeMs}
+                unilateral={summary.unilateralClosures}
+              />
+            </div>
+            <div style={{ display: "flex", gap: 10, marginTop: 8, flexWrap: "wrap" }}>
+              <SessionExportButtons session={session} />
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
@@ -1,83 +1,139 @@
 "use client";
 
+import Link from "next/link";
 import { useEffect, useReducer, useRef, useState } from "react";
-
-declare global {
-  interface Window {
-    FaceMesh?: any;
-  }
-}
-export {};
-
-type Point = { x: number; y: number };
-
-type SessionSummary = {
-  totalBlinks: number;
-  totalVisibleTimeMs: number;
-  totalHiddenTimeMs: number;
-  totalSessionTimeMs: number;
-  averageBlinksPerMinute: number;
-
-  totalAlerts: number;
-  longestNoBlinkMs: number;
-  visibilityPercent: number;
-  blinkCompliancePercent: number;
-
-  blinkIntegralMs: number;
-  averageBlinkSpacingMs: number | null;
-  blinkSpacingStdMs: number | null;
-
-  score: number | null;
-  grade: string;
-  gradeReason: string;
-};
-
-function dist(a: Point, b: Point) {
-  return Math.hypot(a.x - b.x, a.y - b.y);
-}
-
-function ear(p1: Point, p2: Point, p3: Point, p4: Point, p5: Point, p6: Point) {
-  const denom = 2 * dist(p1, p4);
-  if (denom <= 1e-6) return 0;
-  return (dist(p2, p6) + dist(p3, p5)) / denom;
-}
-
-function loadScriptOnce(src: string) {
-  return new Promise<void>((resolve, reject) => {
-    const existing = document.querySelector(`script[src="${src}"]`) as HTMLScriptElement | null;
-    if (existing) {
-      if ((existing as any)._loaded) return resolve();
-      existing.addEventListener("load", () => resolve(), { once: true });
-      existing.addEventListener("error", () => reject(new Error(`Failed to load ${src}`)), { once: true });
-      return;
-    }
-
-    const s = document.createElement("script");
-    s.src = src;
-    s.async = true;
-    s.onload = () => {
-      (s as any)._loaded = true;
-      resolve();
-    };
-    s.onerror = () => reject(new Error(`Failed to load ${src}`));
-    document.head.appendChild(s);
-  });
-}
+import AlertSettingsPanel from "@/components/AlertSettingsPanel";
+import BlinkCue, { CUE_VARIANTS, type CueVariant } from "@/components/BlinkCue";
+import BlinkTimeline from "@/components/BlinkTimeline";
+import CalibrationPanel from "@/components/CalibrationPanel";
+import EventApiPanel from "@/components/EventApiPanel";
+import ScoreBreakdown from "@/components/ScoreBreakdown";
+import SessionExportButtons from "@/components/SessionExportButtons";
+import {
+  createAlertController,
+  DEFAULT_ALERT_SETTINGS,
+  loadAlertSettings,
+  saveAlertSettings,
+  type AlertController,
+  type AlertSettings,
+} from "@/lib/alerts";
+import {
+  createBlinkEngine,
+  DEFAULT_ENGINE_CONFIG,
+  type BlinkEngine,
+  type BlinkEngineConfig,
+} from "@/lib/blinkEngine";
+import {
+  createCalibrationWizard,
+  DEFAULT_CALIBRATION_CONFIG,
+  describeCalibrationQuality,
+  describeProfileMismatch,
+  RECHECK_OPEN_MS,
+  type CalibrationProgress,
+  type CalibrationResult,
+  type CalibrationWizard,
+} from "@/lib/calibration";
+import {
+  createCalibrationProfile,
+  describeCameraMismatch,
+  findCalibrationProfile,
+  loadActiveCalibrationProfileId,
+  loadCalibrationProfiles,
+  saveActiveCalibrationProfileId,
+  saveCalibrationProfiles,
+  type CalibrationProfile,
+} from "@/lib/calibrationProfiles";
+import {
+  CAMERA_FRAME_RATES,
+  CAMERA_RESOLUTIONS,
+  cameraConstraints,
+  cameraFromStream,
+  DEFAULT_CAMERA_SETTINGS,
+  describeStream,
+  listCameras,
+  loadCameraSettings,
+  openCamera,
+  saveCameraSettings,
+  streamFrameRate,
+  type CameraInfo,
+  type CameraResolution,
+  type CameraSettings,
+} from "@/lib/camera";
+import {
+  computeEyeOverlay,
+  describeBaseline,
+  drawDevOverlay,
+  EMPTY_DEV_METRICS,
+  type DevMetrics,
+} from "@/lib/devOverlay";
+import {
+  createEventPublisher,
+  DEFAULT_EVENT_API_SETTINGS,
+  loadEventApiSettings,
+  saveEventApiSettings,
+  toPublicEvent,
+  type EventApiSettings,
+  type EventPublisher,
+} from "@/lib/eventApi";
+import type { Point } from "@/lib/eyeGeometry";
+import { createLandmarkDetector, createMainThreadDetector, type LandmarkDetector } from "@/lib/landmarkDetector";
+import {
+  eyePointsFromLandmarks,
+  recordingToJson,
+  RECORDING_SCHEMA,
+  RECORDING_SCHEMA_VERSION,
+  type LandmarkRecording,
+  type RecordedFrame,
+} from "@/lib/landmarkRecording";
+import { formatDuration, formatMs, formatPercentChange, formatSecondsMs } from "@/lib/format";
+import { createFrameScheduler, type FrameScheduler } from "@/lib/frameScheduler";
+import { DEFAULT_GRADING_PROFILE, type GradingProfile } from "@/lib/grading";
+import { findProfile, loadActiveProfileId, loadGradingProfiles, saveActiveProfileId } from "@/lib/gradingProfiles";
+import { formatPose } from "@/lib/headPose";
+import { loadServerSyncSettings, uploadSession } from "@/lib/serverSync";
+import { registerServiceWorker } from "@/lib/serviceWorker";
+import { createSessionId, type SessionSummary, type StoredSession } from "@/lib/session";
+import { downloadFile } from "@/lib/sessionExport";
+import { saveSession } from "@/lib/sessionStore";
+
+// "cues" replaces the alarm with gentle cues; "both" shows cues before the alarm.
+type AlertStyle = "alarm" | "cues" | "both";
+
+// How the current session was calibrated: passive window, guided wizard, quick
+// re-check of a saved profile, or a saved profile used as is.
+type CalibrationMode = "auto" | "guided" | "recheck" | "profile";
 
 type UiState = {
   running: boolean;
   calibrating: boolean;
   blinks: number;
+  incompleteBlinks: number;
   blinksPerMin: number;
   secondsSinceBlink: number;
   alertOn: boolean;
+  alertLevel: number;
+  cueLevel: number;
+  alertStyle: AlertStyle;
+  cueVariant: CueVariant;
+  breakDue: boolean;
+  breakAwaySec: number;
+  breakReminders: boolean;
+  guidedCalibration: boolean;
+  calibrateClosedEyes: boolean;
+  calibrationProgress: CalibrationProgress | null;
   noBlinkThreshold: number;
   agreed: boolean;
   error: string | null;
   notifEnabled: boolean;
   notifPermission: "default" | "granted" | "denied";
   faceDetected: boolean;
+  headTurned: boolean;
+  maxYawDeg: number;
+  maxPitchDeg: number;
   devMode: boolean;
+  backgroundMode: boolean;
+  powerSaver: boolean;
+  recordLandmarks: boolean;
 };
 
 type Action =
@@ -85,33 +141,65 @@ type Action =
   | { type: "STOP" }
   | { type: "CALIBRATION_DONE" }
   | { type: "SET_BLINKS"; blinks: number }
+  | { type: "SET_INCOMPLETE_BLINKS"; blinks: number }
   | { type: "SET_BPM"; bpm: number }
   | { type: "SET_SECONDS"; seconds: number }
   | { type: "ALERT_ON" }
   | { type: "ALERT_OFF" }
+  | { type: "SET_ALERT_LEVEL"; level: number }
+  | { type: "SET_CUE_LEVEL"; level: number }
+  | { type: "SET_ALERT_STYLE"; style: AlertStyle }
+  | { type: "SET_CUE_VARIANT"; variant: CueVariant }
+  | { type: "BREAK_DUE" }
+  | { type: "BREAK_END" }
+  | { type: "SET_BREAK_AWAY"; seconds: number }
+  | { type: "SET_BREAK_REMINDERS"; enabled: boolean }
+  | { type: "SET_GUIDED_CALIBRATION"; enabled: boolean; closedEyes: boolean }
+  | { type: "SET_CALIBRATION_PROGRESS"; progress: CalibrationProgress | null }
   | { type: "SET_THRESHOLD"; seconds: number }
   | { type: "AGREE" }
   | { type: "ERROR"; message: string }
   | { type: "CLEAR_ERROR" }
   | { type: "SET_NOTIF_ENABLED"; enabled: boolean }
   | { type: "SET_NOTIF_PERMISSION"; perm: "default" | "granted" | "denied" }
-  | { type: "SET_FACE_DETECTED"; detected: boolean }
-  | { type: "TOGGLE_DEV_MODE" };
+  | { type: "SET_FACE_DETECTED"; detected: boolean; headTurned?: boolean }
+  | { type: "SET_POSE_LIMITS"; maxYawDeg: number; maxPitchDeg: number }
+  | { type: "TOGGLE_DEV_MODE" }
+  | { type: "SET_BACKGROUND_MODE"; enabled: boolean }
+  | { type: "SET_POWER_SAVER"; enabled: boolean }
+  | { type: "SET_RECORD_LANDMARKS"; enabled: boolean };
 
 const initialState: UiState = {
   running: false,
   calibrating: false,
   blinks: 0,
+  incompleteBlinks: 0,
   blinksPerMin: 0,
   secondsSinceBlink: 0,
   alertOn: false,
+  alertLevel: 0,
+  cueLevel: 0,
+  alertStyle: "alarm",
+  cueVariant: "vignette",
+  breakDue: false,
+  breakAwaySec: 0,
+  breakReminders: true,
+  guidedCalibration: true,
+  calibrateClosedEyes: false,
+  calibrationProgress: null,
   noBlinkThreshold: 10,
   agreed: false,
   error: null,
   notifEnabled: true,
   notifPermission: "default",
   faceDetected: false,
+  headTurned: false,
+  maxYawDeg: DEFAULT_ENGINE_CONFIG.maxYawDeg,
+  maxPitchDeg: DEFAULT_ENGINE_CONFIG.maxPitchDeg,
   devMode: false,
+  backgroundMode: true,
+  powerSaver: false,
+  recordLandmarks: false,
 };
 
 function reducer(state: UiState, action: Action): UiState {
@@ -122,14 +210,33 @@ function reducer(state: UiState, action: Action): UiState {
         running: true,
         calibrating: true,
         noBlinkThreshold: state.noBlinkThreshold,
+        breakReminders: state.breakReminders,
+        guidedCalibration: state.guidedCalibration,
+        calibrateClosedEyes: state.calibrateClosedEyes,
+        alertStyle: state.alertStyle,
+        cueVariant: state.cueVariant,
         agreed: state.agreed,
         notifEnabled: state.notifEnabled,
         notifPermission: state.notifPermission,
+        maxYawDeg: state.maxYawDeg,
+        maxPitchDeg: state.maxPitchDeg,
         devMode: state.devMode,
+        backgroundMode: state.backgroundMode,
+        powerSaver: state.powerSaver,
+        recordLandmarks: state.recordLandmarks,
       };
 
     case "STOP":
-      return { ...state, running: false, calibrating: false, alertOn: false, faceDetected: false };
+      return {
+        ...state,
+        running: false,
+        calibrating: false,
+        alertOn: false,
+        cueLevel: 0,
+        breakDue: false,
+        breakAwaySec: 0,
+        faceDetected: false,
+      };
 
     case "CALIBRATION_DONE":
       return { ...state, calibrating: false, secondsSinceBlink: 0, alertOn: false };
@@ -137,6 +244,9 @@ function reducer(state: UiState, action: Action): UiState {
     case "SET_BLINKS":
       return { ...state, blinks: action.blinks };
 
+    case "SET_INCOMPLETE_BLINKS":
+      return { ...state, incompleteBlinks: action.blinks };
+
     case "SET_BPM":
       return { ...state, blinksPerMin: action.bpm };
 
@@ -147,7 +257,37 @@ function reducer(state: UiState, action: Action): UiState {
       return { ...state, alertOn: true };
 
     case "ALERT_OFF":
-      return { ...state, alertOn: false };
+      return { ...state, alertOn: false, alertLevel: 0 };
+
+    case "SET_ALERT_LEVEL":
+      return { ...state, alertLevel: action.level };
+
+    case "SET_CUE_LEVEL":
+      return { ...state, cueLevel: action.level };
+
+    case "SET_ALERT_STYLE":
+      return { ...state, alertStyle: action.style };
+
+    case "SET_CUE_VARIANT":
+      return { ...state, cueVariant: action.variant };
+
+    case "BREAK_DUE":
+      return { ...state, breakDue: true, breakAwaySec: 0 };
+
+    case "BREAK_END":
+      return { ...state, breakDue: false, breakAwaySec: 0 };
+
+    case "SET_BREAK_AWAY":
+      return { ...state, breakAwaySec: action.seconds };
+
+    case "SET_BREAK_REMINDERS":
+      return { ...state, breakReminders: action.enabled };
+
+    case "SET_GUIDED_CALIBRATION":
+      return { ...state, guidedCalibration: action.enabled, calibrateClosedEyes: action.closedEyes };
+
+    case "SET_CALIBRATION_PROGRESS":
+      return { ...state, calibrationProgress: action.progress };
 
     case "SET_THRESHOLD":
       return { ...state, noBlinkThreshold: action.seconds };
@@ -175,354 +315,151 @@ function reducer(state: UiState, action: Action): UiState {
       return { ...state, notifPermission: action.perm };
 
     case "SET_FACE_DETECTED":
-      return { ...state, faceDetected: action.detected };
+      return { ...state, faceDetected: action.detected, headTurned: action.headTurned ?? false };
+
+    case "SET_POSE_LIMITS":
+      return { ...state, maxYawDeg: action.maxYawDeg, maxPitchDeg: action.maxPitchDeg };
 
     case "TOGGLE_DEV_MODE":
       return { ...state, devMode: !state.devMode };
 
-    default:
-      return state;
-  }
-}
-
-function formatDuration(ms: number) {
-  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
-  const h = Math.floor(totalSeconds / 3600);
-  const m = Math.floor((totalSeconds % 3600) / 60);
-  const s = totalSeconds % 60;
-  return [h, m, s].map((n) => String(n).padStart(2, "0")).join(":");
-}
-
-function formatSecondsMs(ms: number | null) {
-  if (ms === null) return "N/A";
-  return `${(ms / 1000).toFixed(2)}s`;
-}
-
-function mean(nums: number[]) {
-  if (nums.length === 0) return null;
-  return nums.reduce((a, b) => a + b, 0) / nums.length;
-}
-
-function stdDev(nums: number[]) {
-  if (nums.length < 2) return null;
-  const avg = mean(nums);
-  if (avg === null) return null;
-  const variance = nums.reduce((acc, n) => acc + (n - avg) ** 2, 0) / nums.length;
-  return Math.sqrt(variance);
-}
-
-function drawPoint(ctx: CanvasRenderingContext2D, x: number, y: number, r = 3) {
-  ctx.beginPath();
-  ctx.arc(x, y, r, 0, Math.PI * 2);
-  ctx.fill();
-}
-
-function drawLine(ctx: CanvasRenderingContext2D, x1: number, y1: number, x2: number, y2: number) {
-  ctx.beginPath();
-  ctx.moveTo(x1, y1);
-  ctx.lineTo(x2, y2);
-  ctx.stroke();
-}
-
-function drawMeasurementLabel(ctx: CanvasRenderingContext2D, x: number, y: number, text: string) {
-  ctx.font = "12px Arial";
-  const textWidth = ctx.measureText(text).width;
-  const padX = 6;
-  const boxW = textWidth + padX * 2;
-  const boxH = 18;
-
-  ctx.fillStyle = "#00ff88";
-  ctx.fillRect(x - 4, y - 16, boxW, boxH);
-
-  ctx.fillStyle = "#000";
-  ctx.fillText(text, x + padX - 4, y - 3);
-}
-
-function gradeSession(args: {
-  visibleMs: number;
-  totalMs: number;
-  bpm: number;
-  alerts: number;
-  longestNoBlinkMs: number;
-  riskyVisibleMs: number;
-  blinkIntegralMs: number;
-  averageBlinkSpacingMs: number | null;
-  blinkSpacingStdMs: number | null;
-}) {
-  const {
-    visibleMs,
-    totalMs,
-    bpm,
-    alerts,
-    longestNoBlinkMs,
-    riskyVisibleMs,
-    blinkIntegralMs,
-    averageBlinkSpacingMs,
-    blinkSpacingStdMs,
-  } = args;
-
-  const visibilityPercent = totalMs > 0 ? (visibleMs / totalMs) * 100 : 0;
-  const blinkCompliancePercent = visibleMs > 0 ? ((visibleMs - riskyVisibleMs) / visibleMs) * 100 : 0;
-  const visibleMinutes = visibleMs / 60000;
-  const longestNoBlinkSec = longestNoBlinkMs / 1000;
-  const blinkIntegralPerMinute = visibleMinutes > 0 ? blinkIntegralMs / visibleMinutes : 0;
-
-  if (visibleMinutes < 0.5) {
-    return {
-      score: null,
-      grade: "N/A",
-      gradeReason: "could not determine grade because visible session time was too short",
-      visibilityPercent,
-      blinkCompliancePercent,
-    };
-  }
-
-  let score = 100;
-  const reasons: string[] = [];
-
-  if (visibleMinutes < 1) {
-    score -= 10;
-    reasons.push("limited session length");
-  }
-
-  if (bpm >= 15 && bpm <= 25) {
-    // ideal
-  } else if ((bpm >= 10 && bpm < 15) || (bpm > 25 && bpm <= 30)) {
-    score -= 10;
-    reasons.push("blink rate slightly outside target range");
-  } else if ((bpm >= 7 && bpm < 10) || (bpm > 30 && bpm <= 35)) {
-    score -= 20;
-    reasons.push("blink rate outside healthy target range");
-  } else {
-    score -= 35;
-    reasons.push("blink rate far from target range");
-  }
-
-  if (alerts === 0) {
-    // no penalty
-  } else if (alerts <= 2) {
-    score -= 8;
-    reasons.push("a few no-blink alerts");
-  } else if (alerts <= 5) {
-    score -= 18;
-    reasons.push("multiple no-blink alerts");
-  } else {
-    score -= 30;
-    reasons.push("frequent no-blink alerts");
-  }
-
-  if (longestNoBlinkSec <= 10) {
-    // no penalty
-  } else if (longestNoBlinkSec <= 15) {
-    score -= 8;
-    reasons.push("one longer no-blink streak");
-  } else if (longestNoBlinkSec <= 20) {
-    score -= 15;
-    reasons.push("long no-blink streak");
-  } else {
-    score -= 25;
-    reasons.push("very long no-blink streak");
-  }
-
-  if (visibilityPercent < 60) {
-    score -= 20;
-    reasons.push("face not visible for much of session");
-  } else if (visibilityPercent < 80) {
-    score -= 8;
-    reasons.push("face visibility could be more consistent");
-  }
+    case "SET_BACKGROUND_MODE":
+      return { ...state, backgroundMode: action.enabled };
 
-  if (blinkCompliancePercent < 70) {
-    score -= 18;
-    reasons.push("too much time spent above the no-blink threshold");
-  } else if (blinkCompliancePercent < 85) {
-    score -= 8;
-    reasons.push("some extended no-blink periods");
-  }
+    case "SET_POWER_SAVER":
+      return { ...state, powerSaver: action.enabled };
 
-  if (blinkIntegralPerMinute < 1200) {
-    score -= 15;
-    reasons.push("low blink integral");
-  } else if (blinkIntegralPerMinute < 1800) {
-    score -= 8;
-    reasons.push("blink integral slightly low");
-  }
+    case "SET_RECORD_LANDMARKS":
+      return { ...state, recordLandmarks: action.enabled };
 
-  if (averageBlinkSpacingMs !== null) {
-    const avgSpacingSec = averageBlinkSpacingMs / 1000;
-    if (avgSpacingSec > 8) {
-      score -= 12;
-      reasons.push("blinks are spaced too far apart");
-    } else if (avgSpacingSec < 2) {
-      score -= 8;
-      reasons.push("blinks are unusually clustered");
-    }
-  }
-
-  if (blinkSpacingStdMs !== null && averageBlinkSpacingMs !== null && averageBlinkSpacingMs > 0) {
-    const cv = blinkSpacingStdMs / averageBlinkSpacingMs;
-    if (cv > 1.1) {
-      score -= 10;
-      reasons.push("blink spacing is highly inconsistent");
-    } else if (cv > 0.8) {
-      score -= 5;
-      reasons.push("blink spacing is somewhat inconsistent");
-    }
+    default:
+      return state;
   }
-
-  score = Math.max(0, Math.min(100, Math.round(score)));
-
-  let grade = "F";
-  if (score >= 90) grade = "A";
-  else if (score >= 80) grade = "B";
-  else if (score >= 70) grade = "C";
-  else if (score >= 60) grade = "D";
-
-  const gradeReason =
-    reasons.length > 0
-      ? reasons.join(", ")
-      : "steady blinking, good face visibility, good blink spacing, and no alert issues";
-
-  return {
-    score,
-    grade,
-    gradeReason,
-    visibilityPercent,
-    blinkCompliancePercent,
-  };
 }
 
 export default function Page() {
   const [mounted, setMounted] = useState(false);
   const [sessionSummary, setSessionSummary] = useState<SessionSummary | null>(null);
+  const [lastSession, setLastSession] = useState<StoredSession | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [lastRecording, setLastRecording] = useState<LandmarkRecording | null>(null);
+  const [gradingProfiles, setGradingProfiles] = useState<GradingProfile[]>([DEFAULT_GRADING_PROFILE]);
+  const [gradingProfileId, setGradingProfileId] = useState(DEFAULT_GRADING_PROFILE.id);
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(DEFAULT_ALERT_SETTINGS);
+  const [showAlertSettings, setShowAlertSettings] = useState(false);
+  const [eventApiSettings, setEventApiSettings] = useState<EventApiSettings>(DEFAULT_EVENT_API_SETTINGS);
+  const [eventApiError, setEventApiError] = useState<string | null>(null);
+  const [showEventApi, setShowEventApi] = useState(false);
+  const [calibrationResult, setCalibrationResult] = useState<CalibrationResult | null>(null);
+  const [calibrationMode, setCalibrationMode] = useState<CalibrationMode>("auto");
+  const [calibrationProfiles, setCalibrationProfiles] = useState<CalibrationProfile[]>([]);
+  const [calibrationProfileId, setCalibrationProfileId] = useState("");
+  const [quickRecheck, setQuickRecheck] = useState(true);
+  const [profileName, setProfileName] = useState("");
+  const [cameraWarning, setCameraWarning] = useState<string | null>(null);
+  const [profileMismatch, setProfileMismatch] = useState<string | null>(null);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(DEFAULT_CAMERA_SETTINGS);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [cameraStatus, setCameraStatus] = useState("");
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [powerSaving, setPowerSaving] = useState(false);
+  const [frameStats, setFrameStats] = useState<{ fps: number; droppedPercent: number; low: boolean } | null>(null);
 
   useEffect(() => setMounted(true), []);
 
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
   const [state, dispatch] = useReducer(reducer, initialState);
   const {
     running,
     calibrating,
     blinks,
+    incompleteBlinks,
     blinksPerMin,
     secondsSinceBlink,
     alertOn,
+    alertLevel,
+    cueLevel,
+    alertStyle,
+    cueVariant,
+    breakDue,
+    breakAwaySec,
+    breakReminders,
+    guidedCalibration,
+    calibrateClosedEyes,
+    calibrationProgress,
     noBlinkThreshold,
     agreed,
     error,
     notifEnabled,
     notifPermission,
     faceDetected,
+    headTurned,
+    maxYawDeg,
+    maxPitchDeg,
     devMode,
+    backgroundMode,
+    powerSaver,
+    recordLandmarks,
   } = state;
 
   const videoRef = useRef<HTMLVideoElement>(null);
-  const hiddenCanvasRef = useRef<HTMLCanvasElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
 
   const streamRef = useRef<MediaStream | null>(null);
-  const rafRef = useRef<number | null>(null);
-  const meshRef = useRef<any>(null);
+  const schedulerRef = useRef<FrameScheduler | null>(null);
+  const detectorRef = useRef<LandmarkDetector | null>(null);
+  const powerSaverRef = useRef(powerSaver);
+  const lastFaceAtRef = useRef(0);
+  const lastDetectAtRef = useRef(0);
+  const powerSavingRef = useRef(false);
   const activeRef = useRef(false);
   const startingRef = useRef(false);
-  const faceDetectedRef = useRef(false);
-  const faceMissingSinceRef = useRef<number | null>(null);
-
-  const baselineEarRef = useRef<number | null>(null);
-  const calibStartRef = useRef<number | null>(null);
-  const maxEarRef = useRef(0);
-  const openSamplesRef = useRef<number[]>([]);
-
-  const eyeStateRef = useRef<"OPEN" | "CLOSED">("OPEN");
-  const closedFramesRef = useRef(0);
-  const lastBlinkMsRef = useRef(0);
-
-  const lastBlinkVisibleTotalMsRef = useRef<number | null>(null);
-  const lastAlertAtRef = useRef(0);
-  const lastMetricsUpdateMsRef = useRef<number | null>(null);
-
-  const sessionStartRef = useRef<number | null>(null);
-  const blinkCountRef = useRef(0);
-  const totalVisibleTimeMsRef = useRef(0);
-  const totalHiddenTimeMsRef = useRef(0);
-  const visibleSegmentStartRef = useRef<number | null>(null);
-  const hiddenSegmentStartRef = useRef<number | null>(null);
-
-  const alertCountRef = useRef(0);
-  const longestNoBlinkMsRef = useRef(0);
-  const riskyVisibleTimeMsRef = useRef(0);
-  const blinkIntegralMsRef = useRef(0);
-  const blinkIntervalsRef = useRef<number[]>([]);
-
-  const devMetricsRef = useRef({
-    leftEAR: 0,
-    rightEAR: 0,
-    avgEAR: 0,
-    leftV1: 0,
-    leftV2: 0,
-    rightV1: 0,
-    rightV2: 0,
-    leftH: 0,
-    rightH: 0,
-    leftOpenAvg: 0,
-    rightOpenAvg: 0,
-  });
-
-  const audioCtxRef = useRef<AudioContext | null>(null);
+  const engineRef = useRef<BlinkEngine | null>(null);
+  const wizardRef = useRef<CalibrationWizard | null>(null);
+  const activeProfileRef = useRef<CalibrationProfile | null>(null);
+  const profileMismatchRef = useRef<string | null>(null);
+  const cameraRef = useRef<CameraInfo | null>(null);
+  const switchingCameraRef = useRef(false);
+  const queuedCameraRef = useRef<CameraSettings | null>(null);
+  const sessionStartRef = useRef(0);
+  const sessionIdRef = useRef("");
+  const publisherRef = useRef<EventPublisher | null>(null);
+  const recordingRef = useRef<{
+    frames: RecordedFrame[];
+    videoWidth: number;
+    videoHeight: number;
+    engineConfig: BlinkEngineConfig;
+    sourceFps: number;
+  } | null>(null);
+  const alertsRef = useRef<AlertController | null>(null);
+  const alertLevelRef = useRef(0);
+  const cueLevelRef = useRef(0);
+
+  const devMetricsRef = useRef<DevMetrics>(EMPTY_DEV_METRICS);
 
   const lastNotifAtRef = useRef(0);
-  const lastAlertOnRef = useRef(false);
   const NOTIF_COOLDOWN_MS = 5000;
 
-  const CALIBRATION_MS = 3000;
-  const CLOSE_RATIO = 0.62;
-  const OPEN_RATIO = 0.82;
-  const MIN_CLOSED_FRAMES = 2;
-  const MIN_BLINK_GAP_MS = 350;
-  const FACE_LOST_DEBOUNCE_MS = 300;
-  const ALERT_REPEAT_MS = 2000;
   const BPM_UPDATE_MS = 400;
+  // The summary warns when this share of the visible time ran below the reliable frame rate.
+  const LOW_FPS_WARN_SHARE = 0.1;
+  // Give the adaptive baseline time to settle before comparing it with a saved profile.
+  const PROFILE_CHECK_AFTER_MS = 20000;
+  const BACKGROUND_FRAME_MS = 100;
+  // Power saver: once no face has been seen for POWER_SAVER_AFTER_MS, frames are
+  // processed at most every POWER_SAVER_FRAME_MS until one shows up again.
+  const POWER_SAVER_AFTER_MS = 3000;
+  const POWER_SAVER_FRAME_MS = 500;
+
+  const BREAK_INTERVAL_MIN = DEFAULT_ENGINE_CONFIG.breakIntervalMs / 60000;
+  const BREAK_DURATION_SEC = DEFAULT_ENGINE_CONFIG.breakDurationMs / 1000;
+  const BREAK_MESSAGE = `Look at something about 20 feet (6 m) away for ${BREAK_DURATION_SEC} seconds.`;
 
   const lastBpmUpdateRef = useRef(0);
-
-  function getVisibleTotalMs(now: number) {
-    return (
-      totalVisibleTimeMsRef.current +
-      (visibleSegmentStartRef.current !== null ? now - visibleSegmentStartRef.current : 0)
-    );
-  }
-
-  function updateFaceVisibility(isFaceVisible: boolean, now: number) {
-    if (isFaceVisible === faceDetectedRef.current) return;
-
-    if (isFaceVisible) {
-      if (hiddenSegmentStartRef.current !== null) {
-        totalHiddenTimeMsRef.current += Math.max(0, now - hiddenSegmentStartRef.current);
-        hiddenSegmentStartRef.current = null;
-      }
-      visibleSegmentStartRef.current = now;
-    } else {
-      if (visibleSegmentStartRef.current !== null) {
-        totalVisibleTimeMsRef.current += Math.max(0, now - visibleSegmentStartRef.current);
-        visibleSegmentStartRef.current = null;
-      }
-      hiddenSegmentStartRef.current = now;
-    }
-
-    faceDetectedRef.current = isFaceVisible;
-    dispatch({ type: "SET_FACE_DETECTED", detected: isFaceVisible });
-  }
-
-  function finalizeTiming(now: number) {
-    if (visibleSegmentStartRef.current !== null) {
-      totalVisibleTimeMsRef.current += Math.max(0, now - visibleSegmentStartRef.current);
-      visibleSegmentStartRef.current = null;
-    }
-
-    if (hiddenSegmentStartRef.current !== null) {
-      totalHiddenTimeMsRef.current += Math.max(0, now - hiddenSegmentStartRef.current);
-      hiddenSegmentStartRef.current = null;
-    }
-  }
+  const lastFrameStatsRef = useRef(0);
 
   useEffect(() => {
     if (!mounted) return;
@@ -540,43 +477,76 @@ export default function Page() {
       if (savedNotif !== null) {
         dispatch({ type: "SET_NOTIF_ENABLED", enabled: savedNotif === "true" });
       }
-    } catch {
-      // ignore
-    }
-  }, [mounted]);
 
-  function beep() {
-    const AudioCtx =
-      (window.AudioContext || (window as any).webkitAudioContext) as typeof AudioContext | undefined;
-    if (!AudioCtx) return;
+      const savedStyle = localStorage.getItem("alertStyle");
+      if (savedStyle === "alarm" || savedStyle === "cues" || savedStyle === "both") {
+        dispatch({ type: "SET_ALERT_STYLE", style: savedStyle });
+      }
+
+      const savedVariant = CUE_VARIANTS.find((v) => v.id === localStorage.getItem("cueVariant"));
+      if (savedVariant) dispatch({ type: "SET_CUE_VARIANT", variant: savedVariant.id });
+
+      const savedBreaks = localStorage.getItem("breakReminders");
+      if (savedBreaks !== null) {
+        dispatch({ type: "SET_BREAK_REMINDERS", enabled: savedBreaks === "true" });
+      }
 
-    if (!audioCtxRef.current) audioCtxRef.current = new AudioCtx();
-    const ctx = audioCtxRef.current;
+      const savedGuided = localStorage.getItem("guidedCalibration");
+      const savedClosedEyes = localStorage.getItem("calibrateClosedEyes");
+      if (savedGuided !== null || savedClosedEyes !== null) {
+        dispatch({
+          type: "SET_GUIDED_CALIBRATION",
+          enabled: savedGuided !== "false",
+          closedEyes: savedClosedEyes === "true",
+        });
+      }
 
-    if (ctx.state === "suspended") ctx.resume().catch(() => {});
+      const savedBackground = localStorage.getItem("backgroundMode");
+      if (savedBackground !== null) {
+        dispatch({ type: "SET_BACKGROUND_MODE", enabled: savedBackground === "true" });
+      }
 
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
+      const savedPowerSaver = localStorage.getItem("powerSaver");
+      if (savedPowerSaver !== null) {
+        dispatch({ type: "SET_POWER_SAVER", enabled: savedPowerSaver === "true" });
+      }
 
-    osc.type = "sine";
-    osc.frequency.value = 880;
-    gain.gain.value = 0.06;
+      const savedProfiles = loadCalibrationProfiles();
+      setCalibrationProfiles(savedProfiles);
+      setCalibrationProfileId(findCalibrationProfile(savedProfiles, loadActiveCalibrationProfileId())?.id ?? "");
+      setQuickRecheck(localStorage.getItem("calibrationQuickRecheck") !== "false");
 
-    osc.connect(gain);
-    gain.connect(ctx.destination);
+      setCameraSettings(loadCameraSettings());
+      setAlertSettings(loadAlertSettings());
+      setEventApiSettings(loadEventApiSettings());
 
-    const t0 = ctx.currentTime;
-    osc.start(t0);
-    osc.stop(t0 + 0.18);
+      const profiles = loadGradingProfiles();
+      setGradingProfiles(profiles);
+      setGradingProfileId(findProfile(profiles, loadActiveProfileId()).id);
 
-    osc.onended = () => {
-      try {
-        osc.disconnect();
-        gain.disconnect();
-      } catch {}
-    };
+      const savedYaw = Number(localStorage.getItem("maxYawDeg"));
+      const savedPitch = Number(localStorage.getItem("maxPitchDeg"));
+      if (savedYaw > 0 && savedPitch > 0) {
+        dispatch({ type: "SET_POSE_LIMITS", maxYawDeg: savedYaw, maxPitchDeg: savedPitch });
+      }
+    } catch {
+      // ignore
+    }
+  }, [mounted]);
+
+  async function refreshCameras() {
+    try {
+      setCameras(await listCameras());
+    } catch {}
   }
 
+  useEffect(() => {
+    if (!mounted || !navigator.mediaDevices) return;
+    void refreshCameras();
+    navigator.mediaDevices.addEventListener("devicechange", refreshCameras);
+    return () => navigator.mediaDevices.removeEventListener("devicechange", refreshCameras);
+  }, [mounted]);
+
   async function requestNotifPermission() {
     if (!mounted) return;
     if (!("Notification" in window)) return;
@@ -597,7 +567,7 @@ export default function Page() {
     }
   }
 
-  function showAlertNotification() {
+  function showAlertNotification(title = "Blink reminder", body = "No blink detected — please blink.") {
     if (!notifEnabled) return;
     if (!mounted) return;
     if (!("Notification" in window)) return;
@@ -608,9 +578,7 @@ export default function Page() {
     lastNotifAtRef.current = now;
 
     try {
-      new Notification("Blink reminder", {
-        body: "No blink detected — please blink.",
-      });
+      new Notification(title, { body });
     } catch {}
   }
 
@@ -624,53 +592,82 @@ export default function Page() {
     }
   }
 
+  function setPoseLimits(yawDeg: number, pitchDeg: number) {
+    if (!Number.isFinite(yawDeg) || !Number.isFinite(pitchDeg) || yawDeg <= 0 || pitchDeg <= 0) return;
+    dispatch({ type: "SET_POSE_LIMITS", maxYawDeg: yawDeg, maxPitchDeg: pitchDeg });
+
+    if (mounted) {
+      try {
+        localStorage.setItem("maxYawDeg", String(yawDeg));
+        localStorage.setItem("maxPitchDeg", String(pitchDeg));
+      } catch {}
+    }
+  }
+
+  function setGuidedCalibration(enabled: boolean, closedEyes: boolean) {
+    dispatch({ type: "SET_GUIDED_CALIBRATION", enabled, closedEyes });
+
+    if (mounted) {
+      try {
+        localStorage.setItem("guidedCalibration", String(enabled));
+        localStorage.setItem("calibrateClosedEyes", String(closedEyes));
+      } catch {}
+    }
+  }
+
+  function newCalibrationWizard(profile: CalibrationProfile | null) {
+    const config = { closedStep: calibrateClosedEyes, maxYawDeg, maxPitchDeg };
+    return createCalibrationWizard(
+      profile ? { ...config, reference: profile.calibration, openMs: RECHECK_OPEN_MS } : config,
+    );
+  }
+
+  function selectCalibrationProfile(id: string) {
+    setCalibrationProfileId(id);
+    saveActiveCalibrationProfileId(id);
+  }
+
+  function setQuickRecheckEnabled(enabled: boolean) {
+    setQuickRecheck(enabled);
+    try {
+      localStorage.setItem("calibrationQuickRecheck", String(enabled));
+    } catch {}
+  }
+
+  function saveCurrentCalibration() {
+    if (!calibrationResult?.reliable || profileName.trim() === "") return;
+    const profile = createCalibrationProfile(profileName, calibrationResult, cameraRef.current);
+    const next = [...calibrationProfiles, profile];
+    setCalibrationProfiles(next);
+    saveCalibrationProfiles(next);
+    selectCalibrationProfile(profile.id);
+    setProfileName("");
+  }
+
+  function deleteCalibrationProfile(id: string) {
+    const profile = findCalibrationProfile(calibrationProfiles, id);
+    if (!profile || !window.confirm(`Delete the calibration profile “${profile.name}”?`)) return;
+    const next = calibrationProfiles.filter((p) => p.id !== id);
+    setCalibrationProfiles(next);
+    saveCalibrationProfiles(next);
+    selectCalibrationProfile("");
+  }
+
   function resetRefs() {
-    baselineEarRef.current = null;
-    calibStartRef.current = null;
-    maxEarRef.current = 0;
-    openSamplesRef.current = [];
-
-    eyeStateRef.current = "OPEN";
-    closedFramesRef.current = 0;
-    lastBlinkMsRef.current = 0;
-
-    lastBlinkVisibleTotalMsRef.current = null;
-    lastAlertAtRef.current = 0;
-    lastMetricsUpdateMsRef.current = null;
-
-    sessionStartRef.current = null;
-    blinkCountRef.current = 0;
-    totalVisibleTimeMsRef.current = 0;
-    totalHiddenTimeMsRef.current = 0;
-    visibleSegmentStartRef.current = null;
-    hiddenSegmentStartRef.current = null;
-
-    alertCountRef.current = 0;
-    longestNoBlinkMsRef.current = 0;
-    riskyVisibleTimeMsRef.current = 0;
-    blinkIntegralMsRef.current = 0;
-    blinkIntervalsRef.current = [];
-
-    devMetricsRef.current = {
-      leftEAR: 0,
-      rightEAR: 0,
-      avgEAR: 0,
-      leftV1: 0,
-      leftV2: 0,
-      rightV1: 0,
-      rightV2: 0,
-      leftH: 0,
-      rightH: 0,
-      leftOpenAvg: 0,
-      rightOpenAvg: 0,
-    };
+    engineRef.current = null;
+    wizardRef.current = null;
+    activeProfileRef.current = null;
+    profileMismatchRef.current = null;
+    recordingRef.current = null;
+    alertLevelRef.current = 0;
+    cueLevelRef.current = 0;
+
+    devMetricsRef.current = EMPTY_DEV_METRICS;
 
     lastBpmUpdateRef.current = 0;
+    lastFrameStatsRef.current = 0;
 
     lastNotifAtRef.current = 0;
-    lastAlertOnRef.current = false;
-    faceDetectedRef.current = false;
-    faceMissingSinceRef.current = null;
 
     dispatch({ type: "SET_FACE_DETECTED", detected: false });
     dispatch({ type: "SET_SECONDS", seconds: 0 });
@@ -686,20 +683,19 @@ export default function Page() {
   function cleanupLoopsAndStream() {
     activeRef.current = false;
 
-    if (rafRef.current) cancelAnimationFrame(rafRef.current);
-    rafRef.current = null;
+    schedulerRef.current?.dispose();
+    schedulerRef.current = null;
+
+    publisherRef.current?.dispose();
+    publisherRef.current = null;
 
     if (streamRef.current) {
       for (const t of streamRef.current.getTracks()) t.stop();
       streamRef.current = null;
     }
 
-    if (meshRef.current) {
-      try {
-        meshRef.current.close();
-      } catch {}
-      meshRef.current = null;
-    }
+    detectorRef.current?.close();
+    detectorRef.current = null;
 
     const overlay = overlayCanvasRef.current;
     if (overlay) {
@@ -715,152 +711,218 @@ export default function Page() {
     dispatch({ type: "CLEAR_ERROR" });
     resetRefs();
     setSessionSummary(null);
+    setSaveError(null);
+    setLastRecording(null);
+    setCalibrationResult(null);
+    setCameraWarning(null);
+    setProfileMismatch(null);
+    setCameraError(null);
+    setFrameStats(null);
+    setPowerSaving(false);
     dispatch({ type: "START" });
     activeRef.current = true;
 
     try {
-      await loadScriptOnce("https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/face_mesh.js");
+      const engineConfig = {
+        noBlinkThresholdSec: noBlinkThreshold,
+        breakReminders,
+        alarm: alertStyle !== "cues",
+        cues: alertStyle !== "alarm",
+        maxYawDeg,
+        maxPitchDeg,
+        gradingProfile: findProfile(gradingProfiles, gradingProfileId),
+      };
 
-      const startNow = performance.now();
-      sessionStartRef.current = startNow;
-      hiddenSegmentStartRef.current = startNow;
+      // The session clock starts when monitoring does: right away with the
+      // passive calibration, or once the guided calibration has passed.
+      const beginMonitoring = (t: number, calibration: CalibrationResult | null) => {
+        const config: BlinkEngineConfig = { ...DEFAULT_ENGINE_CONFIG, ...engineConfig, calibration };
+        const engine = createBlinkEngine(config, t);
+        const stream = streamRef.current;
+        const fps = stream && streamFrameRate(stream);
+        if (fps) engine.setSourceFps(fps);
+        engineRef.current = engine;
+        sessionStartRef.current = t;
+        if (recordLandmarks) {
+          recordingRef.current = {
+            frames: [],
+            videoWidth: 0,
+            videoHeight: 0,
+            engineConfig: config,
+            sourceFps: config.sourceFps,
+          };
+        }
+      };
 
-      const stream = await navigator.mediaDevices.getUserMedia({ video: true });
+      const profile = findCalibrationProfile(calibrationProfiles, calibrationProfileId);
+      activeProfileRef.current = profile;
+      const mode: CalibrationMode = profile
+        ? quickRecheck
+          ? "recheck"
+          : "profile"
+        : guidedCalibration
+          ? "guided"
+          : "auto";
+      setCalibrationMode(mode);
+
+      if (mode === "guided" || mode === "recheck") wizardRef.current = newCalibrationWizard(profile);
+      else beginMonitoring(performance.now(), profile?.calibration ?? null);
+
+      alertsRef.current = createAlertController(alertSettings, showAlertNotification);
+      sessionIdRef.current = createSessionId();
+      setEventApiError(null);
+      publisherRef.current = createEventPublisher(eventApiSettings, sessionIdRef.current, setEventApiError);
+
+      const { stream, fellBack } = await openCamera(cameraSettings);
       streamRef.current = stream;
+      cameraRef.current = cameraFromStream(stream);
+      setCameraStatus(describeStream(stream));
+      const sourceFps = streamFrameRate(stream);
+      if (sourceFps) engineRef.current?.setSourceFps(sourceFps);
+      if (fellBack) setCameraError("The selected camera is not available; using the default camera.");
+      if (profile) setCameraWarning(describeCameraMismatch(profile, cameraRef.current));
+      // Labels are only readable once permission has been granted.
+      void refreshCameras();
 
       const video = videoRef.current;
-      const canvas = hiddenCanvasRef.current;
-      if (!video || !canvas) throw new Error("Video/canvas not ready.");
+      if (!video) throw new Error("Video not ready.");
 
       video.srcObject = stream;
       await video.play();
 
-      const ctx = canvas.getContext("2d");
-      if (!ctx) throw new Error("Failed to get canvas 2D context.");
-
-      const FaceMesh = window.FaceMesh;
-      if (!FaceMesh) throw new Error("FaceMesh failed to load (window.FaceMesh missing).");
-
-      const mesh = new FaceMesh({
-        locateFile: (f: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/${f}`,
-      });
-      meshRef.current = mesh;
-
-      mesh.setOptions({
-        maxNumFaces: 1,
-        refineLandmarks: true,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-      });
-
-      mesh.onResults((res: any) => {
-        if (!activeRef.current) return;
-
-        const now = performance.now();
-        const prevMetricsNow = lastMetricsUpdateMsRef.current;
-        const deltaMs = prevMetricsNow === null ? 0 : Math.max(0, now - prevMetricsNow);
-        lastMetricsUpdateMsRef.current = now;
+      let detector = await createLandmarkDetector();
+      if (!activeRef.current) {
+        detector.close();
+        return;
+      }
+      detectorRef.current = detector;
 
+      // `now` is when the frame was captured, not when its landmarks arrived.
+      const handleLandmarks = (now: number, lm: Point[] | null) => {
         const videoEl = videoRef.current;
         const overlay = overlayCanvasRef.current;
-        const hasFace = !!res.multiFaceLandmarks?.length;
-
-        if (hasFace) {
-          faceMissingSinceRef.current = null;
-
-          if (!faceDetectedRef.current) {
-            updateFaceVisibility(true, now);
-          }
-        } else {
-          if (faceMissingSinceRef.current === null) {
-            faceMissingSinceRef.current = now;
-          }
-
-          if (now - faceMissingSinceRef.current >= FACE_LOST_DEBOUNCE_MS) {
-            if (faceDetectedRef.current) {
-              updateFaceVisibility(false, now);
-            }
-            dispatch({ type: "ALERT_OFF" });
-            lastAlertOnRef.current = false;
-
-            if (overlay) {
-              const octx = overlay.getContext("2d");
-              if (octx) octx.clearRect(0, 0, overlay.width, overlay.height);
+        if (lm) lastFaceAtRef.current = now;
+        const aspect = videoEl && videoEl.videoHeight ? videoEl.videoWidth / videoEl.videoHeight : 1;
+
+        const wizard = wizardRef.current;
+        if (wizard) {
+          // A failed calibration waits here until it is retried.
+          if (wizard.result()) return;
+
+          dispatch({ type: "SET_CALIBRATION_PROGRESS", progress: wizard.processLandmarks(now, lm, aspect) });
+          const result = wizard.result();
+          if (result) {
+            setCalibrationResult(result);
+            if (result.reliable) {
+              wizardRef.current = null;
+              beginMonitoring(now, result);
             }
           }
-
           return;
         }
 
-        const lm = res.multiFaceLandmarks[0] as Point[];
+        const engine = engineRef.current;
+        if (!engine) return;
+        const sessionStart = sessionStartRef.current;
+        const events = engine.processLandmarks(now, lm, aspect);
+
+        const recording = recordingRef.current;
+        if (recording) {
+          const recSnap = engine.snapshot(now);
+          const frame: RecordedFrame = {
+            t: now - sessionStart,
+            eyes: lm ? eyePointsFromLandmarks(lm) : null,
+            pose: lm ? recSnap.headPose : null,
+          };
+          if (recSnap.sourceFps !== recording.sourceFps) {
+            frame.sourceFps = recSnap.sourceFps;
+            recording.sourceFps = recSnap.sourceFps;
+          }
+          recording.frames.push(frame);
+          if (videoEl) {
+            recording.videoWidth = videoEl.videoWidth;
+            recording.videoHeight = videoEl.videoHeight;
+          }
+        }
 
-        const L = { p1: 33, p2: 160, p3: 159, p4: 133, p5: 145, p6: 144 };
-        const R = { p1: 362, p2: 387, p3: 386, p4: 263, p5: 374, p6: 373 };
+        for (const ev of events) {
+          const publicEvent = toPublicEvent(ev);
+          if (publicEvent) publisherRef.current?.publish(publicEvent, ev.t - sessionStart);
+
+          switch (ev.type) {
+            case "faceFound":
+              dispatch({ type: "SET_FACE_DETECTED", detected: true });
+              break;
+            case "faceLost":
+              dispatch({ type: "SET_FACE_DETECTED", detected: false, headTurned: ev.reason === "headPose" });
+              break;
+            case "calibrated":
+              dispatch({ type: "CALIBRATION_DONE" });
+              break;
+            case "blink":
+              dispatch({ type: "SET_BLINKS", blinks: ev.count });
+              dispatch({ type: "SET_SECONDS", seconds: 0 });
+              break;
+            case "incompleteBlink":
+              dispatch({ type: "SET_INCOMPLETE_BLINKS", blinks: ev.count });
+              break;
+            case "alertStart":
+              dispatch({ type: "ALERT_ON" });
+              alertsRef.current?.start(now, {
+                title: "Blink reminder",
+                body: "No blink detected — please blink.",
+                speech: alertSettings.speechText,
+              });
+              break;
+            case "alertEnd":
+              dispatch({ type: "ALERT_OFF" });
+              alertsRef.current?.stop();
+              alertLevelRef.current = 0;
+              break;
+            case "cueEnd":
+              cueLevelRef.current = 0;
+              dispatch({ type: "SET_CUE_LEVEL", level: 0 });
+              break;
+            case "breakDue":
+              dispatch({ type: "BREAK_DUE" });
+              alertsRef.current?.cue({ title: "Time for a break", body: BREAK_MESSAGE, speech: "Time for a break." });
+              break;
+            case "breakEnd":
+              dispatch({ type: "BREAK_END" });
+              break;
+          }
+        }
 
-        const left = ear(lm[L.p1], lm[L.p2], lm[L.p3], lm[L.p4], lm[L.p5], lm[L.p6]);
-        const right = ear(lm[R.p1], lm[R.p2], lm[R.p3], lm[R.p4], lm[R.p5], lm[R.p6]);
-        const curEar = (left + right) / 2;
+        const breakSnap = engine.snapshot(now);
+        if (breakSnap.breakDue) dispatch({ type: "SET_BREAK_AWAY", seconds: breakSnap.breakAwaySec });
 
-        if (videoEl) {
-          const toPx = (p: Point) => ({
-            x: p.x * videoEl.videoWidth,
-            y: p.y * videoEl.videoHeight,
+        if (breakSnap.fps !== null && now - lastFrameStatsRef.current >= BPM_UPDATE_MS) {
+          lastFrameStatsRef.current = now;
+          const total = breakSnap.processedFrames + breakSnap.droppedFrames;
+          setFrameStats({
+            fps: breakSnap.fps,
+            droppedPercent: total > 0 ? (breakSnap.droppedFrames / total) * 100 : 0,
+            low: breakSnap.lowFps,
           });
+        }
 
-          const lp1 = toPx(lm[L.p1]);
-          const lp2 = toPx(lm[L.p2]);
-          const lp3 = toPx(lm[L.p3]);
-          const lp4 = toPx(lm[L.p4]);
-          const lp5 = toPx(lm[L.p5]);
-          const lp6 = toPx(lm[L.p6]);
-
-          const rp1 = toPx(lm[R.p1]);
-          const rp2 = toPx(lm[R.p2]);
-          const rp3 = toPx(lm[R.p3]);
-          const rp4 = toPx(lm[R.p4]);
-          const rp5 = toPx(lm[R.p5]);
-          const rp6 = toPx(lm[R.p6]);
-
-          const leftV1 = dist(lp2, lp6);
-          const leftV2 = dist(lp3, lp5);
-          const leftH = dist(lp1, lp4);
-
-          const rightV1 = dist(rp2, rp6);
-          const rightV2 = dist(rp3, rp5);
-          const rightH = dist(rp1, rp4);
-
-          const leftMid1 = {
-            x: (lp2.x + lp6.x) / 2,
-            y: (lp2.y + lp6.y) / 2,
-          };
-          const leftMid2 = {
-            x: (lp3.x + lp5.x) / 2,
-            y: (lp3.y + lp5.y) / 2,
-          };
-          const rightMid1 = {
-            x: (rp2.x + rp6.x) / 2,
-            y: (rp2.y + rp6.y) / 2,
-          };
-          const rightMid2 = {
-            x: (rp3.x + rp5.x) / 2,
-            y: (rp3.y + rp5.y) / 2,
-          };
+        if (!lm) {
+          if (overlay && !engine.snapshot(now).faceDetected) {
+            const octx = overlay.getContext("2d");
+            if (octx) octx.clearRect(0, 0, overlay.width, overlay.height);
+          }
+          return;
+        }
 
-          const leftOpenAvg = (leftV1 + leftV2) / 2;
-          const rightOpenAvg = (rightV1 + rightV2) / 2;
+        const snap = engine.snapshot(now);
 
+        if (videoEl) {
+          const eyeOverlay = computeEyeOverlay(lm, videoEl.videoWidth, videoEl.videoHeight);
           devMetricsRef.current = {
-            leftEAR: left,
-            rightEAR: right,
-            avgEAR: curEar,
-            leftV1,
-            leftV2,
-            rightV1,
-            rightV2,
-            leftH,
-            rightH,
-            leftOpenAvg,
-            rightOpenAvg,
+            ...eyeOverlay.metrics,
+            baselineEar: snap.baselineEar,
+            calibratedBaselineEar: snap.calibratedBaselineEar,
+            headPose: snap.headPose,
           };
 
           if (devMode && overlay) {
@@ -869,50 +931,11 @@ export default function Page() {
 
             const octx = overlay.getContext("2d");
             if (octx) {
-              octx.clearRect(0, 0, overlay.width, overlay.height);
-
-              octx.lineWidth = 2;
-              octx.fillStyle = "#00ff88";
-              octx.strokeStyle = "#00ff88";
-
-              [lp1, lp2, lp3, lp4, lp5, lp6, rp1, rp2, rp3, rp4, rp5, rp6].forEach((p) => {
-                drawPoint(octx, p.x, p.y, 4);
-              });
-
-              octx.strokeStyle = "#00bfff";
-              drawLine(octx, lp1.x, lp1.y, lp4.x, lp4.y);
-              drawLine(octx, lp2.x, lp2.y, lp6.x, lp6.y);
-              drawLine(octx, lp3.x, lp3.y, lp5.x, lp5.y);
-
-              drawLine(octx, rp1.x, rp1.y, rp4.x, rp4.y);
-              drawLine(octx, rp2.x, rp2.y, rp6.x, rp6.y);
-              drawLine(octx, rp3.x, rp3.y, rp5.x, rp5.y);
-
-              // Small green eyelid opening indicators
-              octx.strokeStyle = "#00ff88";
-              octx.lineWidth = 3;
-
-              drawLine(octx, leftMid1.x - 14, leftMid1.y, leftMid1.x - 14, leftMid1.y - leftV1);
-              drawLine(octx, leftMid2.x - 20, leftMid2.y, leftMid2.x - 20, leftMid2.y - leftV2);
-
-              drawLine(octx, rightMid1.x + 14, rightMid1.y, rightMid1.x + 14, rightMid1.y - rightV1);
-              drawLine(octx, rightMid2.x + 20, rightMid2.y, rightMid2.x + 20, rightMid2.y - rightV2);
-
-              // Labels near each eye opening measurement
-              drawMeasurementLabel(octx, leftMid1.x - 68, leftMid1.y - 6, `${leftV1.toFixed(1)} px`);
-              drawMeasurementLabel(octx, leftMid2.x - 74, leftMid2.y + 18, `${leftV2.toFixed(1)} px`);
-
-              drawMeasurementLabel(octx, rightMid1.x + 18, rightMid1.y - 6, `${rightV1.toFixed(1)} px`);
-              drawMeasurementLabel(octx, rightMid2.x + 24, rightMid2.y + 18, `${rightV2.toFixed(1)} px`);
-
-              // Summary text
-              octx.fillStyle = "#ffffff";
-              octx.font = "16px Arial";
-              octx.fillText(`Left EAR: ${left.toFixed(3)}`, 16, 28);
-              octx.fillText(`Right EAR: ${right.toFixed(3)}`, 16, 50);
-              octx.fillText(`Avg EAR: ${curEar.toFixed(3)}`, 16, 72);
-              octx.fillText(`Eye Open L: ${leftOpenAvg.toFixed(1)} px`, 16, 94);
-              octx.fillText(`Eye Open R: ${rightOpenAvg.toFixed(1)} px`, 16, 116);
+              drawDevOverlay(octx, eyeOverlay, [
+                describeBaseline(snap.baselineEar, snap.calibratedBaselineEar),
+                `Pose: ${formatPose(snap.headPose)}${snap.poseWithinLimits ? "" : " (beyond limits)"}`,
+                `Eyes: L ${snap.eyeStates.left} / R ${snap.eyeStates.right}`,
+              ]);
             }
           } else if (overlay) {
             const octx = overlay.getContext("2d");
@@ -920,133 +943,97 @@ export default function Page() {
           }
         }
 
-        if (baselineEarRef.current === null) {
-          if (calibStartRef.current === null) calibStartRef.current = now;
-
-          maxEarRef.current = Math.max(maxEarRef.current, curEar);
-          if (curEar > maxEarRef.current * 0.8) openSamplesRef.current.push(curEar);
-
-          if (now - (calibStartRef.current ?? now) >= CALIBRATION_MS) {
-            const samples = openSamplesRef.current;
-            baselineEarRef.current =
-              samples.length > 0 ? samples.reduce((a, b) => a + b, 0) / samples.length : maxEarRef.current;
-
-            lastBlinkVisibleTotalMsRef.current = getVisibleTotalMs(now);
-            lastMetricsUpdateMsRef.current = now;
-            dispatch({ type: "CALIBRATION_DONE" });
-            dispatch({ type: "SET_SECONDS", seconds: 0 });
-            dispatch({ type: "ALERT_OFF" });
-          }
-
-          return;
-        }
-
-        const baseline = baselineEarRef.current;
-        const closeThr = baseline * CLOSE_RATIO;
-        const openThr = baseline * OPEN_RATIO;
-
-        if (eyeStateRef.current === "OPEN") {
-          if (curEar < closeThr) {
-            closedFramesRef.current = 1;
-            eyeStateRef.current = "CLOSED";
-          }
-        } else {
-          blinkIntegralMsRef.current += deltaMs;
-
-          if (curEar < closeThr) {
-            closedFramesRef.current += 1;
-          }
-
-          if (curEar > openThr) {
-            const longEnough = closedFramesRef.current >= MIN_CLOSED_FRAMES;
-            const farEnough = now - lastBlinkMsRef.current >= MIN_BLINK_GAP_MS;
-
-            if (longEnough && farEnough) {
-              const currentVisibleTotal = getVisibleTotalMs(now);
-
-              if (lastBlinkVisibleTotalMsRef.current !== null) {
-                const spacingMs = Math.max(0, currentVisibleTotal - lastBlinkVisibleTotalMsRef.current);
-                if (spacingMs > 0) {
-                  blinkIntervalsRef.current.push(spacingMs);
-                }
-              }
+        if (snap.calibrating) return;
 
-              blinkCountRef.current += 1;
-              dispatch({ type: "SET_BLINKS", blinks: blinkCountRef.current });
-              lastBlinkMsRef.current = now;
-              lastBlinkVisibleTotalMsRef.current = currentVisibleTotal;
-              dispatch({ type: "SET_SECONDS", seconds: 0 });
-              dispatch({ type: "ALERT_OFF" });
-              lastAlertOnRef.current = false;
-            }
+        dispatch({ type: "SET_SECONDS", seconds: snap.secondsSinceBlink });
 
-            eyeStateRef.current = "OPEN";
-            closedFramesRef.current = 0;
+        const activeProfile = activeProfileRef.current;
+        if (activeProfile && snap.baselineEar !== null && now - sessionStart >= PROFILE_CHECK_AFTER_MS) {
+          const mismatch = describeProfileMismatch(activeProfile.calibration, snap.baselineEar);
+          if (mismatch !== profileMismatchRef.current) {
+            profileMismatchRef.current = mismatch;
+            setProfileMismatch(mismatch);
           }
         }
 
-        const visibleElapsedMs =
-          lastBlinkVisibleTotalMsRef.current === null
-            ? 0
-            : Math.max(0, getVisibleTotalMs(now) - lastBlinkVisibleTotalMsRef.current);
-
-        if (visibleElapsedMs > longestNoBlinkMsRef.current) {
-          longestNoBlinkMsRef.current = visibleElapsedMs;
+        const cueChanged = Math.abs(snap.cueLevel - cueLevelRef.current) >= 0.02;
+        const cueStarted = snap.cueLevel > 0 && cueLevelRef.current === 0;
+        const cueFull = snap.cueLevel === 1 && cueLevelRef.current !== 1;
+        if (cueChanged || cueStarted || cueFull) {
+          cueLevelRef.current = snap.cueLevel;
+          dispatch({ type: "SET_CUE_LEVEL", level: snap.cueLevel });
         }
 
-        const sec = visibleElapsedMs / 1000;
-        dispatch({ type: "SET_SECONDS", seconds: sec });
-
-        if (sec >= noBlinkThreshold) {
-          riskyVisibleTimeMsRef.current += deltaMs;
-          dispatch({ type: "ALERT_ON" });
-
-          if (!lastAlertOnRef.current) {
-            lastAlertOnRef.current = true;
-            alertCountRef.current += 1;
-            showAlertNotification();
+        if (snap.alertOn) {
+          const level = alertsRef.current?.tick(now) ?? -1;
+          if (level >= 0 && level !== alertLevelRef.current) {
+            alertLevelRef.current = level;
+            dispatch({ type: "SET_ALERT_LEVEL", level });
           }
-
-          if (now - lastAlertAtRef.current >= ALERT_REPEAT_MS) {
-            lastAlertAtRef.current = now;
-            beep();
-          }
-        } else {
-          dispatch({ type: "ALERT_OFF" });
-          lastAlertOnRef.current = false;
         }
 
-        const visibleMinutes = getVisibleTotalMs(now) / 60000;
-        const bpm = visibleMinutes > 0 ? blinkCountRef.current / visibleMinutes : 0;
-
         if (now - lastBpmUpdateRef.current >= BPM_UPDATE_MS) {
           lastBpmUpdateRef.current = now;
-          dispatch({ type: "SET_BPM", bpm });
+          dispatch({ type: "SET_BPM", bpm: snap.blinksPerMin });
         }
-      });
+      };
+
+      const scheduler = createFrameScheduler(BACKGROUND_FRAME_MS);
+      scheduler.setBackgroundEnabled(backgroundMode);
+      schedulerRef.current = scheduler;
+
+      lastFaceAtRef.current = performance.now();
+      lastDetectAtRef.current = 0;
+      powerSavingRef.current = false;
 
       const loop = async () => {
         if (!activeRef.current) return;
 
         const v = videoRef.current;
-        const c = hiddenCanvasRef.current;
-        if (!v || !c) return;
+        if (!v) return;
 
-        if (v.readyState === 4) {
-          c.width = v.videoWidth;
-          c.height = v.videoHeight;
-          ctx.drawImage(v, 0, 0, c.width, c.height);
+        const t = performance.now();
+        const idle = powerSaverRef.current && t - lastFaceAtRef.current >= POWER_SAVER_AFTER_MS;
+        if (idle !== powerSavingRef.current) {
+          powerSavingRef.current = idle;
+          setPowerSaving(idle);
+        }
 
-          if (activeRef.current) {
-            await mesh.send({ image: c });
+        if (v.readyState === 4 && (!idle || t - lastDetectAtRef.current >= POWER_SAVER_FRAME_MS)) {
+          lastDetectAtRef.current = t;
+          let lm: Point[] | null;
+          try {
+            lm = await detector.detect(v);
+          } catch (e: unknown) {
+            if (!activeRef.current) return;
+            let failure = e;
+            // A failed or stuck worker is replaced by main-thread detection.
+            if (detector.inWorker) {
+              detector.close();
+              try {
+                detector = await createMainThreadDetector();
+                detectorRef.current = detector;
+                if (activeRef.current) scheduler.request(loop);
+                else detector.close();
+                return;
+              } catch (fallbackError) {
+                failure = fallbackError;
+              }
+              if (!activeRef.current) return;
+            }
+            cleanupLoopsAndStream();
+            const detail = failure instanceof Error ? failure.message : String(failure);
+            dispatch({ type: "ERROR", message: `Landmark detection failed: ${detail}` });
+            return;
           }
+          if (activeRef.current) handleLandmarks(t, lm);
         }
 
         if (activeRef.current) {
-          rafRef.current = requestAnimationFrame(loop);
+          scheduler.request(loop);
         }
       };
-      rafRef.current = requestAnimationFrame(loop);
+      scheduler.request(loop);
     } catch (e: any) {
       cleanupLoopsAndStream();
       dispatch({ type: "ERROR", message: e?.message ?? "Failed to start." });
@@ -1055,59 +1042,160 @@ export default function Page() {
     }
   }
 
+  function changeCamera(next: CameraSettings) {
+    setCameraSettings(next);
+    saveCameraSettings(next);
+    if (running) void switchCamera(next);
+  }
+
+  // Swaps the video source mid-session. The engine keeps running, so counts and
+  // timing carry over; frames missed during the swap are booked as hidden time.
+  // A change made while a swap is in progress is applied once it finishes.
+  async function switchCamera(next: CameraSettings) {
+    if (switchingCameraRef.current) {
+      queuedCameraRef.current = next;
+      return;
+    }
+    const video = videoRef.current;
+    const current = streamRef.current;
+    if (!video || !current) return;
+    switchingCameraRef.current = true;
+    setCameraError(null);
+
+    try {
+      const track = current.getVideoTracks()[0];
+      if (track && (!next.deviceId || track.getSettings().deviceId === next.deviceId)) {
+        // Same device (or "default", which keeps the current one): only the
+        // resolution or frame rate changes.
+        await track.applyConstraints(cameraConstraints({ ...next, deviceId: "" }));
+      } else {
+        const { stream, fellBack } = await openCamera(next);
+        if (!activeRef.current) {
+          for (const t of stream.getTracks()) t.stop();
+          return;
+        }
+        streamRef.current = stream;
+        video.srcObject = stream;
+        try {
+          await video.play();
+        } catch (e) {
+          // Go back to the previous camera (or, if the session stopped meanwhile,
+          // close it too) so neither stream is left open.
+          for (const t of stream.getTracks()) t.stop();
+          if (activeRef.current) {
+            streamRef.current = current;
+            video.srcObject = current;
+            // The play() failure above is the one reported.
+            await video.play().catch(() => {});
+          } else {
+            for (const t of current.getTracks()) t.stop();
+          }
+          throw e;
+        }
+        for (const t of current.getTracks()) t.stop();
+        if (fellBack) setCameraError("The selected camera is not available; using the default camera.");
+      }
+
+      const stream = streamRef.current;
+      if (!stream) return;
+      cameraRef.current = cameraFromStream(stream);
+      setCameraStatus(describeStream(stream));
+      const sourceFps = streamFrameRate(stream);
+      if (sourceFps) engineRef.current?.setSourceFps(sourceFps);
+      const profile = activeProfileRef.current;
+      if (profile) setCameraWarning(describeCameraMismatch(profile, cameraRef.current));
+    } catch (e: unknown) {
+      setCameraError(`Could not switch the camera: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      switchingCameraRef.current = false;
+      const queued = queuedCameraRef.current;
+      queuedCameraRef.current = null;
+      if (queued && activeRef.current) void switchCamera(queued);
+    }
+  }
+
+  function retryCalibration() {
+    wizardRef.current = newCalibrationWizard(calibrationMode === "recheck" ? activeProfileRef.current : null);
+    setCalibrationResult(null);
+    dispatch({ type: "SET_CALIBRATION_PROGRESS", progress: null });
+  }
+
+  // Gives up on a saved profile that failed its re-check for this session.
+  function runFullCalibration() {
+    activeProfileRef.current = null;
+    setCalibrationMode("guided");
+    setCameraWarning(null);
+    wizardRef.current = newCalibrationWizard(null);
+    setCalibrationResult(null);
+    dispatch({ type: "SET_CALIBRATION_PROGRESS", progress: null });
+  }
+
+  function skipBreak() {
+    const engine = engineRef.current;
+    if (!engine) return;
+    for (const ev of engine.skipBreak(performance.now())) {
+      if (ev.type === "breakEnd") dispatch({ type: "BREAK_END" });
+    }
+  }
+
   function stop() {
-    const now = performance.now();
-    finalizeTiming(now);
-
-    const totalVisible = totalVisibleTimeMsRef.current;
-    const totalHidden = totalHiddenTimeMsRef.current;
-    const totalSessionTime =
-      sessionStartRef.current !== null ? Math.max(0, now - sessionStartRef.current) : totalVisible + totalHidden;
-    const averageBlinksPerMinute = totalVisible > 0 ? blinkCountRef.current / (totalVisible / 60000) : 0;
-    const averageBlinkSpacingMs = mean(blinkIntervalsRef.current);
-    const blinkSpacingStdMs = stdDev(blinkIntervalsRef.current);
-
-    const grading = gradeSession({
-      visibleMs: totalVisible,
-      totalMs: totalSessionTime,
-      bpm: averageBlinksPerMinute,
-      alerts: alertCountRef.current,
-      longestNoBlinkMs: longestNoBlinkMsRef.current,
-      riskyVisibleMs: riskyVisibleTimeMsRef.current,
-      blinkIntegralMs: blinkIntegralMsRef.current,
-      averageBlinkSpacingMs,
-      blinkSpacingStdMs,
-    });
-
-    const summary: SessionSummary = {
-      totalBlinks: blinkCountRef.current,
-      totalVisibleTimeMs: totalVisible,
-      totalHiddenTimeMs: totalHidden,
-      totalSessionTimeMs: totalSessionTime,
-      averageBlinksPerMinute,
-
-      totalAlerts: alertCountRef.current,
-      longestNoBlinkMs: longestNoBlinkMsRef.current,
-      visibilityPercent: grading.visibilityPercent,
-      blinkCompliancePercent: grading.blinkCompliancePercent,
-
-      blinkIntegralMs: blinkIntegralMsRef.current,
-      averageBlinkSpacingMs,
-      blinkSpacingStdMs,
-
-      score: grading.score,
-      grade: grading.grade,
-      gradeReason: grading.gradeReason,
-    };
+    const engine = engineRef.current;
+
+    if (engine) {
+      const stopNow = performance.now();
+      const { summary, timeline, baselineEar } = engine.finish(stopNow);
+
+      const recording = recordingRef.current;
+      if (recording) {
+        setLastRecording({
+          schema: RECORDING_SCHEMA,
+          version: RECORDING_SCHEMA_VERSION,
+          recordedAt: new Date().toISOString(),
+          durationMs: stopNow - sessionStartRef.current,
+          videoWidth: recording.videoWidth || 640,
+          videoHeight: recording.videoHeight || 480,
+          engineConfig: recording.engineConfig,
+          frames: recording.frames,
+        });
+      }
 
-    setSessionSummary(summary);
+      const endedAt = Date.now();
+      const record: StoredSession = {
+        id: sessionIdRef.current || createSessionId(),
+        startedAt: endedAt - summary.totalSessionTimeMs,
+        endedAt,
+        noBlinkThreshold,
+        baselineEar,
+        summary,
+        timeline,
+      };
+
+      publisherRef.current?.publish({ type: "sessionSummary", summary }, summary.totalSessionTimeMs);
+
+      setSessionSummary(summary);
+      setLastSession(record);
+
+      saveSession(record).catch((e: unknown) => {
+        const detail = e instanceof Error ? e.message : String(e);
+        setSaveError(`This session could not be saved to history (${detail}). Export it below to keep a copy.`);
+      });
+
+      const serverSync = loadServerSyncSettings();
+      if (serverSync.autoUpload) {
+        uploadSession(serverSync, record).catch(() => {
+          // the local copy can still be uploaded from the history page
+        });
+      }
+    }
+
+    engineRef.current = null;
+    wizardRef.current = null;
+    recordingRef.current = null;
     dispatch({ type: "STOP" });
     cleanupLoopsAndStream();
 
-    if (audioCtxRef.current) {
-      audioCtxRef.current.close().catch(() => {});
-      audioCtxRef.current = null;
-    }
+    alertsRef.current?.dispose();
+    alertsRef.current = null;
   }
 
   useEffect(() => {
@@ -1118,21 +1206,27 @@ export default function Page() {
 
   useEffect(() => {
     const onVis = () => {
-      if (document.hidden && running) stop();
+      if (document.hidden && running && !backgroundMode) stop();
     };
 
     document.addEventListener("visibilitychange", onVis);
     return () => document.removeEventListener("visibilitychange", onVis);
-  }, [running]);
+  }, [running, backgroundMode]);
+
+  useEffect(() => {
+    schedulerRef.current?.setBackgroundEnabled(backgroundMode);
+  }, [backgroundMode]);
+
+  useEffect(() => {
+    powerSaverRef.current = powerSaver;
+  }, [powerSaver]);
 
   useEffect(() => {
     return () => {
       cleanupLoopsAndStream();
 
-      if (audioCtxRef.current) {
-        audioCtxRef.current.close().catch(() => {});
-        audioCtxRef.current = null;
-      }
+      alertsRef.current?.dispose();
+      alertsRef.current = null;
     };
   }, []);
 
@@ -1141,20 +1235,45 @@ export default function Page() {
     : !running
       ? "Press Start to begin."
       : calibrating
-        ? "Calibrating… keep your eyes open for a few seconds."
-        : !faceDetected
-          ? "No face detected — alarm paused."
-          : alertOn
-            ? "BLINK! (alert repeats until you blink)"
-            : "Monitoring…";
+        ? calibrationMode === "guided" || calibrationMode === "recheck"
+          ? "Calibrating… follow the steps below."
+          : "Calibrating… keep your eyes open for a few seconds."
+        : breakDue && !alertOn
+          ? "Break time — look away from the screen."
+          : !faceDetected
+            ? headTurned
+              ? "Head turned too far — alarm paused."
+              : "No face detected — alarm paused."
+            : alertOn
+              ? "BLINK! (alert repeats until you blink)"
+              : cueLevel >= 1
+                ? "Please blink — past the no-blink threshold."
+                : "Monitoring…";
 
   const canUseNotifications = mounted && "Notification" in window;
 
   return (
     <div style={{ background: "#000", color: "#fff", minHeight: "100vh", padding: 20 }}>
-      <h1 style={{ margin: 0 }}>Blink Monitor (Webcam)</h1>
+      <div style={{ display: "flex", alignItems: "center", gap: 16, flexWrap: "wrap" }}>
+        <h1 style={{ margin: 0 }}>Blink Monitor (Webcam)</h1>
+        <Link href="/history" style={{ color: "#00bfff" }}>
+          Session history
+        </Link>
+        <Link href="/trends" style={{ color: "#00bfff" }}>
+          Trends
+        </Link>
+        {devMode && (
+          <Link href="/replay" style={{ color: "#00bfff" }}>
+            Replay
+          </Link>
+        )}
+      </div>
+
+      {running && !calibrating && cueLevel > 0 && alertStyle !== "alarm" && (
+        <BlinkCue level={cueLevel} variant={cueVariant} />
+      )}
 
-      {running && !calibrating && alertOn && (
+      {running && !calibrating && (alertOn || breakDue) && (
         <div
           role="dialog"
           aria-modal="true"
@@ -1173,34 +1292,67 @@ export default function Page() {
             style={{
               width: "min(520px, 100%)",
               background: "#111",
-              border: "2px solid #ff4d4d",
+              border: `2px solid ${alertOn ? "#ff4d4d" : "#ffcc66"}`,
               borderRadius: 14,
               padding: 18,
-              boxShadow: "0 0 0 1px rgba(255,77,77,0.25)",
+              boxShadow: `0 0 0 1px ${alertOn ? "rgba(255,77,77,0.25)" : "rgba(255,204,102,0.25)"}`,
             }}
           >
-            <div style={{ fontSize: 22, fontWeight: 700, color: "#ff4d4d" }}>Blink now</div>
-            <div style={{ marginTop: 8, lineHeight: 1.5, opacity: 0.95 }}>
-              No blink detected for <b>{secondsSinceBlink.toFixed(1)}s</b>. Please blink to clear the alarm.
-            </div>
-
-            <div
-              style={{
-                marginTop: 12,
-                padding: "10px 12px",
-                borderRadius: 10,
-                background: "#0b0b0b",
-                border: "1px solid #222",
-                opacity: 0.95,
-              }}
-            >
-              Alarm threshold: <b>{noBlinkThreshold}s</b> • Beep repeats every{" "}
-              <b>{(ALERT_REPEAT_MS / 1000).toFixed(1)}s</b>
-            </div>
-
-            <div style={{ marginTop: 14, fontSize: 13, opacity: 0.75 }}>
-              Tip: The alarm stops automatically after you blink.
-            </div>
+            {alertOn ? (
+              <>
+                <div style={{ fontSize: 22, fontWeight: 700, color: "#ff4d4d" }}>Blink now</div>
+                <div style={{ marginTop: 8, lineHeight: 1.5, opacity: 0.95 }}>
+                  No blink detected for <b>{secondsSinceBlink.toFixed(1)}s</b>. Please blink to clear the alarm.
+                </div>
+
+                <div
+                  style={{
+                    marginTop: 12,
+                    padding: "10px 12px",
+                    borderRadius: 10,
+                    background: "#0b0b0b",
+                    border: "1px solid #222",
+                    opacity: 0.95,
+                  }}
+                >
+                  Alarm threshold: <b>{noBlinkThreshold}s</b> • Alert level <b>{alertLevel + 1}</b> of{" "}
+                  <b>{alertSettings.steps.length}</b>
+                </div>
+
+                <div style={{ marginTop: 14, fontSize: 13, opacity: 0.75 }}>
+                  Tip: The alarm stops automatically after you blink.
+                </div>
+              </>
+            ) : (
+              <>
+                <div style={{ fontSize: 22, fontWeight: 700, color: "#ffcc66" }}>Time for a break</div>
+                <div style={{ marginTop: 8, lineHeight: 1.5, opacity: 0.95 }}>
+                  You have had {BREAK_INTERVAL_MIN} minutes of screen time. {BREAK_MESSAGE}
+                </div>
+
+                <div
+                  style={{
+                    marginTop: 12,
+                    padding: "10px 12px",
+                    borderRadius: 10,
+                    background: "#0b0b0b",
+                    border: "1px solid #222",
+                    opacity: 0.95,
+                  }}
+                >
+                  Looking away: <b>{Math.min(breakAwaySec, BREAK_DURATION_SEC).toFixed(0)}s</b> of{" "}
+                  <b>{BREAK_DURATION_SEC}s</b>
+                </div>
+
+                <div style={{ marginTop: 14, fontSize: 13, opacity: 0.75 }}>
+                  Tip: The break is detected automatically once your face leaves the camera view or you turn away.
+                </div>
+
+                <button onClick={skipBreak} style={{ marginTop: 14, padding: "6px 12px", cursor: "pointer" }}>
+                  Skip this break
+                </button>
+              </>
+            )}
           </div>
         </div>
       )}
@@ -1264,6 +1416,51 @@ export default function Page() {
           {devMode ? "Dev Mode On" : "Dev Mode Off"}
         </button>
 
+        <button onClick={() => setShowAlertSettings((v) => !v)} style={{ padding: "8px 14px", cursor: "pointer" }}>
+          {showAlertSettings ? "Hide alert settings" : "Alert settings"}
+        </button>
+
+        <button onClick={() => setShowEventApi((v) => !v)} style={{ padding: "8px 14px", cursor: "pointer" }}>
+          {showEventApi ? "Hide event API" : "Event API"}
+        </button>
+
+        {devMode && (
+          <label style={{ opacity: 0.9 }}>
+            <input
+              type="checkbox"
+              checked={recordLandmarks}
+              onChange={(e) => dispatch({ type: "SET_RECORD_LANDMARKS", enabled: e.target.checked })}
+              disabled={running}
+              style={{ marginRight: 8 }}
+            />
+            Record landmarks for replay
+          </label>
+        )}
+
+        {devMode && (
+          <label style={{ opacity: 0.9 }}>
+            Max yaw / pitch (°)
+            <input
+              type="number"
+              min={5}
+              max={90}
+              value={maxYawDeg}
+              onChange={(e) => setPoseLimits(Number(e.target.value), maxPitchDeg)}
+              disabled={running}
+              style={{ marginLeft: 8, padding: "4px 6px", width: 56 }}
+            />
+            <input
+              type="number"
+              min={5}
+              max={90}
+              value={maxPitchDeg}
+              onChange={(e) => setPoseLimits(maxYawDeg, Number(e.target.value))}
+              disabled={running}
+              style={{ marginLeft: 6, padding: "4px 6px", width: 56 }}
+            />
+          </label>
+        )}
+
         <div
           style={{
             padding: "6px 10px",
@@ -1293,6 +1490,71 @@ export default function Page() {
           </label>
         </div>
 
+        <div style={{ marginLeft: 8 }}>
+          <label style={{ opacity: 0.9 }}>
+            Alert style
+            <select
+              value={alertStyle}
+              onChange={(e) => {
+                const style = e.target.value as AlertStyle;
+                dispatch({ type: "SET_ALERT_STYLE", style });
+                try {
+                  localStorage.setItem("alertStyle", style);
+                } catch {}
+              }}
+              style={{ marginLeft: 8, padding: "4px 6px" }}
+              disabled={running}
+            >
+              <option value="alarm">Alarm</option>
+              <option value="cues">Gentle cues only</option>
+              <option value="both">Cues, then alarm</option>
+            </select>
+          </label>
+          {alertStyle !== "alarm" && (
+            <select
+              value={cueVariant}
+              onChange={(e) => {
+                const variant = e.target.value as CueVariant;
+                dispatch({ type: "SET_CUE_VARIANT", variant });
+                try {
+                  localStorage.setItem("cueVariant", variant);
+                } catch {}
+              }}
+              style={{ marginLeft: 8, padding: "4px 6px" }}
+            >
+              {CUE_VARIANTS.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {v.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div style={{ marginLeft: 8 }}>
+          <label style={{ opacity: 0.9 }}>
+            Grading profile
+            <select
+              value={gradingProfileId}
+              onChange={(e) => {
+                setGradingProfileId(e.target.value);
+                saveActiveProfileId(e.target.value);
+              }}
+              style={{ marginLeft: 8, padding: "4px 6px" }}
+              disabled={running}
+            >
+              {gradingProfiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <Link href="/grading" style={{ color: "#00bfff", marginLeft: 10 }}>
+            Edit profiles
+          </Link>
+        </div>
+
         <div style={{ marginLeft: 8 }}>
           <label style={{ opacity: 0.9 }}>
             <input
@@ -1335,8 +1597,225 @@ export default function Page() {
             </span>
           )}
         </div>
+
+        <div style={{ marginLeft: 8 }}>
+          <label style={{ opacity: 0.9 }}>
+            <input
+              type="checkbox"
+              checked={backgroundMode}
+              onChange={(e) => {
+                const enabled = e.target.checked;
+                dispatch({ type: "SET_BACKGROUND_MODE", enabled });
+
+                if (mounted) {
+                  try {
+                    localStorage.setItem("backgroundMode", String(enabled));
+                  } catch {}
+                }
+              }}
+              style={{ marginRight: 8 }}
+            />
+            Keep monitoring when tab is in background
+          </label>
+        </div>
+
+        <div style={{ marginLeft: 8 }}>
+          <label style={{ opacity: 0.9 }}>
+            <input
+              type="checkbox"
+              checked={powerSaver}
+              onChange={(e) => {
+                const enabled = e.target.checked;
+                dispatch({ type: "SET_POWER_SAVER", enabled });
+
+                if (mounted) {
+                  try {
+                    localStorage.setItem("powerSaver", String(enabled));
+                  } catch {}
+                }
+              }}
+              style={{ marginRight: 8 }}
+            />
+            Power saver (slow down while no face is visible)
+          </label>
+        </div>
+
+        <div style={{ marginLeft: 8 }}>
+          <label style={{ opacity: 0.9 }}>
+            <input
+              type="checkbox"
+              checked={breakReminders}
+              onChange={(e) => {
+                const enabled = e.target.checked;
+                dispatch({ type: "SET_BREAK_REMINDERS", enabled });
+
+                if (mounted) {
+                  try {
+                    localStorage.setItem("breakReminders", String(enabled));
+                  } catch {}
+                }
+              }}
+              disabled={running}
+              style={{ marginRight: 8 }}
+            />
+            20-20-20 break reminders
+          </label>
+        </div>
+
+        <div style={{ marginLeft: 8 }}>
+          <label style={{ opacity: 0.9 }}>
+            Camera
+            <select
+              value={cameraSettings.deviceId}
+              onChange={(e) => changeCamera({ ...cameraSettings, deviceId: e.target.value })}
+              style={{ marginLeft: 8, padding: "4px 6px", maxWidth: 220 }}
+            >
+              <option value="">Default camera</option>
+              {cameras.map((c, i) => (
+                <option key={c.deviceId} value={c.deviceId}>
+                  {c.label || `Camera ${i + 1}`}
+                </option>
+              ))}
+              {cameraSettings.deviceId !== "" && !cameras.some((c) => c.deviceId === cameraSettings.deviceId) && (
+                <option value={cameraSettings.deviceId}>Saved camera (not connected)</option>
+              )}
+            </select>
+          </label>
+          <select
+            value={cameraSettings.resolution}
+            onChange={(e) => changeCamera({ ...cameraSettings, resolution: e.target.value as CameraResolution })}
+            style={{ marginLeft: 8, padding: "4px 6px" }}
+          >
+            {CAMERA_RESOLUTIONS.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={cameraSettings.frameRate}
+            onChange={(e) => changeCamera({ ...cameraSettings, frameRate: Number(e.target.value) })}
+            style={{ marginLeft: 8, padding: "4px 6px" }}
+          >
+            {CAMERA_FRAME_RATES.map((fps) => (
+              <option key={fps} value={fps}>
+                {fps === 0 ? "Default frame rate" : `${fps} fps`}
+              </option>
+            ))}
+          </select>
+          {running && cameraStatus && (
+            <span style={{ marginLeft: 10, fontSize: 12, opacity: 0.7 }}>({cameraStatus})</span>
+          )}
+        </div>
+
+        <div style={{ marginLeft: 8 }}>
+          <label style={{ opacity: 0.9 }}>
+            Calibration
+            <select
+              value={calibrationProfileId}
+              onChange={(e) => selectCalibrationProfile(e.target.value)}
+              style={{ marginLeft: 8, padding: "4px 6px" }}
+              disabled={running}
+            >
+              <option value="">Calibrate now</option>
+              {calibrationProfiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          {calibrationProfileId === "" ? (
+            <>
+              <label style={{ marginLeft: 12, opacity: 0.9 }}>
+                <input
+                  type="checkbox"
+                  checked={guidedCalibration}
+                  onChange={(e) => setGuidedCalibration(e.target.checked, calibrateClosedEyes)}
+                  disabled={running}
+                  style={{ marginRight: 8 }}
+                />
+                Guided
+              </label>
+              {guidedCalibration && (
+                <label style={{ marginLeft: 12, opacity: 0.9 }}>
+                  <input
+                    type="checkbox"
+                    checked={calibrateClosedEyes}
+                    onChange={(e) => setGuidedCalibration(true, e.target.checked)}
+                    disabled={running}
+                    style={{ marginRight: 8 }}
+                  />
+                  Include eyes-closed step
+                </label>
+              )}
+            </>
+          ) : (
+            <>
+              <label style={{ marginLeft: 12, opacity: 0.9 }}>
+                <input
+                  type="checkbox"
+                  checked={quickRecheck}
+                  onChange={(e) => setQuickRecheckEnabled(e.target.checked)}
+                  disabled={running}
+                  style={{ marginRight: 8 }}
+                />
+                Quick re-check
+              </label>
+              <button
+                onClick={() => deleteCalibrationProfile(calibrationProfileId)}
+                disabled={running}
+                style={{ marginLeft: 10, padding: "4px 10px", cursor: running ? "not-allowed" : "pointer" }}
+              >
+                Delete profile
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
+      {cameraError && <div style={{ marginTop: 10, color: "#ffcc66" }}>{cameraError}</div>}
+
+      {showAlertSettings && (
+        <AlertSettingsPanel
+          settings={alertSettings}
+          onChange={(next) => {
+            setAlertSettings(next);
+            return saveAlertSettings(next);
+          }}
+          notify={showAlertNotification}
+          disabled={running}
+        />
+      )}
+
+      {showEventApi && (
+        <EventApiPanel
+          settings={eventApiSettings}
+          onChange={(next) => {
+            setEventApiSettings(next);
+            saveEventApiSettings(next);
+          }}
+          deliveryError={eventApiError}
+          disabled={running}
+        />
+      )}
+
+      {running && calibrating && (calibrationMode === "guided" || calibrationMode === "recheck") && (
+        <CalibrationPanel
+          progress={calibrationProgress}
+          result={calibrationResult}
+          closedStep={calibrateClosedEyes}
+          blinkCount={DEFAULT_CALIBRATION_CONFIG.blinkCount}
+          recheckOf={
+            calibrationMode === "recheck"
+              ? (findCalibrationProfile(calibrationProfiles, calibrationProfileId)?.name ?? "")
+              : null
+          }
+          onRetry={retryCalibration}
+          onFullCalibration={runFullCalibration}
+        />
+      )}
+
       <div style={{ marginTop: 16, display: "flex", justifyContent: "center" }}>
         {sessionSummary && !running ? (
           <div
@@ -1353,19 +1832,40 @@ export default function Page() {
             }}
           >
             <div style={{ fontSize: 24, fontWeight: 700, marginBottom: 16 }}>Session Summary</div>
+            {saveError && <div style={{ color: "#ff4d4d", marginBottom: 12 }}>{saveError}</div>}
 
             <div style={{ lineHeight: 1.9, fontSize: 17 }}>
               <div>
                 <b>Total blinks:</b> {sessionSummary.totalBlinks}
               </div>
+              <div>
+                <b>Incomplete blinks:</b> {sessionSummary.incompleteBlinks}
+              </div>
+              <div>
+                <b>Per-eye blinks (L / R):</b> {sessionSummary.leftEyeBlinks} / {sessionSummary.rightEyeBlinks}
+                {sessionSummary.blinkAsymmetryIndex !== null &&
+                  ` (asymmetry index ${sessionSummary.blinkAsymmetryIndex.toFixed(2)})`}
+              </div>
+              <div>
+                <b>Winks / one-eye closures:</b> {sessionSummary.winks} / {sessionSummary.oneEyeClosures}
+              </div>
               <div>
                 <b>Total alerts:</b> {sessionSummary.totalAlerts}
               </div>
+              {sessionSummary.totalCues > 0 && (
+                <div>
+                  <b>Gentle cues:</b> {sessionSummary.totalCues} ({sessionSummary.cuesClearedBeforeAlert} cleared before
+                  the alarm threshold)
+                </div>
+              )}
               <div>
                 <b>Total visible time:</b> {formatDuration(sessionSummary.totalVisibleTimeMs)}
               </div>
               <div>
                 <b>Total hidden time:</b> {formatDuration(sessionSummary.totalHiddenTimeMs)}
+                {sessionSummary.offPoseTimeMs > 0 && (
+                  <span style={{ opacity: 0.8 }}> (head turned away {formatDuration(sessionSummary.offPoseTimeMs)})</span>
+                )}
               </div>
               <div>
                 <b>Total session time:</b> {formatDuration(sessionSummary.totalSessionTimeMs)}
@@ -1385,12 +1885,64 @@ export default function Page() {
               <div>
                 <b>Blink integral:</b> {formatSecondsMs(sessionSummary.blinkIntegralMs)} total eye-closure time
               </div>
+              <div>
+                <b>Blink duration:</b> mean {formatMs(sessionSummary.meanBlinkDurationMs)}, median{" "}
+                {formatMs(sessionSummary.medianBlinkDurationMs)}, 90th percentile{" "}
+                {formatMs(sessionSummary.p90BlinkDurationMs)}
+              </div>
+              <div>
+                <b>Blink phases (mean):</b> closing {formatMs(sessionSummary.meanClosingMs)}, closed{" "}
+                {formatMs(sessionSummary.meanClosedMs)}, reopening {formatMs(sessionSummary.meanReopeningMs)}
+              </div>
+              <div>
+                <b>Slow blinks:</b>{" "}
+                {sessionSummary.slowBlinkFraction === null
+                  ? "N/A"
+                  : `${(sessionSummary.slowBlinkFraction * 100).toFixed(1)}%`}
+              </div>
               <div>
                 <b>Average blink spacing:</b> {formatSecondsMs(sessionSummary.averageBlinkSpacingMs)}
               </div>
               <div>
                 <b>Blink spacing std dev:</b> {formatSecondsMs(sessionSummary.blinkSpacingStdMs)}
               </div>
+              <div>
+                <b>Breaks (20-20-20):</b>{" "}
+                {sessionSummary.breakCompliancePercent === null
+                  ? "no reminders due"
+                  : `${sessionSummary.breaksTaken} taken, ${sessionSummary.breaksMissed} missed ` +
+                    `(${sessionSummary.breakCompliancePercent.toFixed(0)}% compliance)`}
+                {sessionSummary.selfInitiatedBreaks > 0 &&
+                  `, ${sessionSummary.selfInitiatedBreaks} taken without a reminder`}
+              </div>
+              <div>
+                <b>Calibration:</b>{" "}
+                {sessionSummary.calibrationQuality === null
+                  ? "automatic"
+                  : `guided, quality ${sessionSummary.calibrationQuality}/100`}
+              </div>
+              <div>
+                <b>Frame rate:</b>{" "}
+                {sessionSummary.averageFps === null
+                  ? "N/A"
+                  : `${sessionSummary.averageFps.toFixed(1)} fps average, ` +
+                    `${sessionSummary.droppedFrames} camera frames dropped`}
+                {sessionSummary.lowFpsTimeMs > 0 &&
+                  sessionSummary.lowFpsTimeMs >= sessionSummary.totalVisibleTimeMs * LOW_FPS_WARN_SHARE && (
+                    <span style={{ color: "#ffcc66" }}>
+                      {` — below ${DEFAULT_ENGINE_CONFIG.minReliableFps} fps for ` +
+                        `${formatDuration(sessionSummary.lowFpsTimeMs)}; short blinks may have been missed`}
+                    </span>
+                  )}
+              </div>
+              <div>
+                <b>Baseline drift:</b>{" "}
+                {sessionSummary.baselineDriftPercent === null
+                  ? "N/A"
+                  : `${formatPercentChange(sessionSummary.baselineDriftPercent)} by the end (largest ${formatPercentChange(
+                      sessionSummary.maxBaselineDriftPercent ?? 0,
+                    )})`}
+              </div>
               <div>
                 <b>Session score:</b> {sessionSummary.score === null ? "N/A" : `${sessionSummary.score}/100`}
               </div>
@@ -1400,9 +1952,39 @@ export default function Page() {
               <div>
                 <b>Why:</b> {sessionSummary.gradeReason}
               </div>
+              <div>
+                <b>Grading profile:</b> {sessionSummary.gradingProfileName}
+              </div>
             </div>
 
+            <div style={{ fontSize: 18, fontWeight: 700, marginTop: 20, marginBottom: 8 }}>Score breakdown</div>
+            <ScoreBreakdown factors={sessionSummary.scoreFactors} score={sessionSummary.score} />
+
+            <div style={{ fontSize: 18, fontWeight: 700, marginTop: 20, marginBottom: 8 }}>Blink timeline</div>
+            <BlinkTimeline
+              events={sessionSummary.blinkEvents}
+              durationMs={sessionSummary.totalSessionTimeMs}
+              unilateral={sessionSummary.unilateralClosures}
+            />
+
             <div style={{ display: "flex", gap: 10, marginTop: 20, flexWrap: "wrap" }}>
+              {lastSession && <SessionExportButtons session={lastSession} />}
+
+              {lastRecording && (
+                <button
+                  onClick={() =>
+                    downloadFile(
+                      `blink-recording-${lastRecording.recordedAt.replace(/[:.]/g, "-")}.json`,
+                      recordingToJson(lastRecording),
+                      "application/json",
+                    )
+                  }
+                  style={{ padding: "10px 16px", cursor: "pointer" }}
+                >
+                  Download landmark recording
+                </button>
+              )}
+
               <button
                 onClick={() => {
                   setSessionSummary(null);
@@ -1445,7 +2027,6 @@ export default function Page() {
                 display: devMode ? "block" : "none",
               }}
             />
-            <canvas ref={hiddenCanvasRef} style={{ display: "none" }} />
           </div>
         ) : (
           <div
@@ -1470,12 +2051,68 @@ export default function Page() {
         <div>
           <b>Blinks:</b> {blinks}
         </div>
+        <div>
+          <b>Incomplete blinks:</b> {incompleteBlinks}
+        </div>
         <div>
           <b>Blinks / min:</b> {blinksPerMin.toFixed(1)}
         </div>
         <div>
           <b>Seconds since last blink:</b> {secondsSinceBlink.toFixed(1)}
         </div>
+        {running && powerSaving && (
+          <div style={{ opacity: 0.8 }}>Power saver: no face in view, processing fewer frames.</div>
+        )}
+        {running && frameStats && (
+          <div>
+            <b>Processing rate:</b> {frameStats.fps.toFixed(1)} fps ({frameStats.droppedPercent.toFixed(0)}% of camera
+            frames dropped)
+            {frameStats.low && (
+              <span style={{ color: "#ffcc66" }}>
+                {" "}
+                — too low for reliable blink detection; close other heavy tabs or lower the camera resolution
+              </span>
+            )}
+          </div>
+        )}
+        {running && calibrationResult?.reliable && (
+          <div>
+            <b>Calibration quality:</b> {calibrationResult.quality}/100 (
+            {describeCalibrationQuality(calibrationResult.quality)})
+            {calibrationResult.issues.length > 0 && (
+              <span style={{ color: "#ffcc66" }}> — {calibrationResult.issues.map((i) => i.message).join(" ")}</span>
+            )}
+          </div>
+        )}
+        {calibrationResult?.reliable && calibrationMode === "guided" && (
+          <div>
+            <input
+              type="text"
+              placeholder="Profile name, e.g. with glasses"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              maxLength={60}
+              style={{ padding: "4px 6px", width: 240 }}
+            />
+            <button
+              onClick={saveCurrentCalibration}
+              disabled={profileName.trim() === ""}
+              style={{
+                marginLeft: 8,
+                padding: "4px 10px",
+                cursor: profileName.trim() === "" ? "not-allowed" : "pointer",
+              }}
+            >
+              Save calibration as profile
+            </button>
+          </div>
+        )}
+        {running && (cameraWarning || profileMismatch) && (
+          <div style={{ color: "#ffcc66" }}>
+            {[cameraWarning, profileMismatch].filter(Boolean).join(" ")} Consider stopping and running a full
+            calibration.
+          </div>
+        )}
         <div style={{ opacity: 0.75 }}>Tip: if you don’t hear sound, click once on the page (browser audio rule).</div>
       </div>
 
@@ -1499,6 +2136,9 @@ export default function Page() {
           <div><b>Right eye opening average:</b> {devMetricsRef.current.rightOpenAvg.toFixed(1)} px</div>
           <div><b>Left eye width:</b> {devMetricsRef.current.leftH.toFixed(1)}</div>
           <div><b>Right eye width:</b> {devMetricsRef.current.rightH.toFixed(1)}</div>
+          <div><b>Adaptive baseline EAR:</b> {devMetricsRef.current.baselineEar?.toFixed(3) ?? "calibrating"}</div>
+          <div><b>Calibrated baseline EAR:</b> {devMetricsRef.current.calibratedBaselineEar?.toFixed(3) ?? "calibrating"}</div>
+          <div><b>Head pose:</b> {formatPose(devMetricsRef.current.headPose)} (limits ±{maxYawDeg}° yaw, ±{maxPitchDeg}° pitch)</div>
         </div>
       )}
     </div>
@@ -0,0 +1,331 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import BlinkTimeline from "@/components/BlinkTimeline";
+import ScoreBreakdown from "@/components/ScoreBreakdown";
+import { createBlinkEngine, DEFAULT_ENGINE_CONFIG, type BlinkEngineResult } from "@/lib/blinkEngine";
+import { computeEyeOverlay, describeBaseline, drawDevOverlay } from "@/lib/devOverlay";
+import { formatDuration, formatMs, formatPercentChange, formatSecondsMs } from "@/lib/format";
+import { formatPose } from "@/lib/headPose";
+import {
+  feedRecordedFrame,
+  landmarksFromEyePoints,
+  parseRecording,
+  recordedRatios,
+  replayConfig,
+  replayRecording,
+  type LandmarkRecording,
+  type ReplayOverrides,
+} from "@/lib/landmarkRecording";
+
+export default function ReplayPage() {
+  const [recording, setRecording] = useState<LandmarkRecording | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [closeRatio, setCloseRatio] = useState(DEFAULT_ENGINE_CONFIG.closeRatio);
+  const [openRatio, setOpenRatio] = useState(DEFAULT_ENGINE_CONFIG.openRatio);
+  const [threshold, setThreshold] = useState(10);
+  const [adaptive, setAdaptive] = useState(DEFAULT_ENGINE_CONFIG.adaptiveBaseline);
+  const [speed, setSpeed] = useState(1);
+  const [result, setResult] = useState<BlinkEngineResult | null>(null);
+  const [playing, setPlaying] = useState(false);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rafRef = useRef<number | null>(null);
+
+  function stopPlayback() {
+    if (rafRef.current !== null) cancelAnimationFrame(rafRef.current);
+    rafRef.current = null;
+    setPlaying(false);
+  }
+
+  useEffect(() => {
+    return () => {
+      if (rafRef.current !== null) cancelAnimationFrame(rafRef.current);
+    };
+  }, []);
+
+  async function onLoad(file: File) {
+    stopPlayback();
+    setResult(null);
+    try {
+      const rec = parseRecording(await file.text());
+      setRecording(rec);
+      const ratios = recordedRatios(rec);
+      setCloseRatio(ratios.closeRatio);
+      setOpenRatio(ratios.openRatio);
+      setThreshold(rec.engineConfig.noBlinkThresholdSec);
+      setAdaptive(rec.engineConfig.adaptiveBaseline);
+      setFileError(null);
+    } catch (e: unknown) {
+      setRecording(null);
+      setFileError(e instanceof Error ? e.message : "Failed to read recording.");
+    }
+  }
+
+  // Settings changed on this page; everything else comes from the recording.
+  const overrides: ReplayOverrides = {
+    closeRatio,
+    openRatio,
+    noBlinkThresholdSec: threshold,
+    adaptiveBaseline: adaptive,
+  };
+
+  function runReplay() {
+    if (!recording) return;
+    setResult(replayRecording(recording, overrides));
+  }
+
+  // Plays the recording back in (scaled) real time through a fresh engine and
+  // draws the Dev Mode overlay for each frame, so thresholds can be judged visually.
+  function play() {
+    const canvas = canvasRef.current;
+    if (!recording || !canvas) return;
+    stopPlayback();
+
+    canvas.width = recording.videoWidth;
+    canvas.height = recording.videoHeight;
+    const octx = canvas.getContext("2d");
+    if (!octx) return;
+
+    const engine = createBlinkEngine(replayConfig(recording, overrides), 0);
+    const frames = recording.frames;
+    const wallStart = performance.now();
+    let idx = 0;
+
+    const tick = () => {
+      const playT = (performance.now() - wallStart) * speed;
+      let lastEyes: number[] | null = null;
+
+      while (idx < frames.length && frames[idx].t <= playT) {
+        const f = frames[idx];
+        feedRecordedFrame(engine, f);
+        lastEyes = f.eyes;
+        idx += 1;
+      }
+
+      if (idx > 0) {
+        const snap = engine.snapshot(frames[idx - 1].t);
+        const baseline = snap.baselineEar;
+        const extra = [
+          describeBaseline(baseline, snap.calibratedBaselineEar),
+          `Pose: ${formatPose(snap.headPose)}${snap.poseWithinLimits ? "" : " (beyond limits)"}`,
+          `Eyes: L ${snap.eyeStates.left} / R ${snap.eyeStates.right}`,
+          baseline === null
+            ? "Calibrating…"
+            : `close < ${(baseline * closeRatio).toFixed(3)} • open > ${(baseline * openRatio).toFixed(3)}`,
+          `Blinks: ${snap.blinks} • Since blink: ${snap.secondsSinceBlink.toFixed(1)}s${snap.alertOn ? " • ALERT" : ""}`,
+          `t = ${formatDuration(frames[idx - 1].t)}`,
+        ];
+
+        if (lastEyes) {
+          drawDevOverlay(octx, computeEyeOverlay(landmarksFromEyePoints(lastEyes), canvas.width, canvas.height), extra);
+        } else if (!frames[idx - 1].eyes) {
+          octx.clearRect(0, 0, canvas.width, canvas.height);
+          octx.fillStyle = "#ffffff";
+          octx.font = "16px Arial";
+          octx.fillText("No face in frame", 16, 28);
+        }
+      }
+
+      if (idx < frames.length) {
+        rafRef.current = requestAnimationFrame(tick);
+      } else {
+        rafRef.current = null;
+        setPlaying(false);
+        setResult(engine.finish(recording.durationMs));
+      }
+    };
+
+    setPlaying(true);
+    rafRef.current = requestAnimationFrame(tick);
+  }
+
+  const summary = result?.summary ?? null;
+
+  return (
+    <div style={{ background: "#000", color: "#fff", minHeight: "100vh", padding: 20 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 16, flexWrap: "wrap" }}>
+        <h1 style={{ margin: 0 }}>Landmark Replay</h1>
+        <Link href="/" style={{ color: "#00bfff" }}>
+          Back to monitor
+        </Link>
+      </div>
+
+      <div style={{ marginTop: 8, opacity: 0.75 }}>
+        Load a recording made with “Record landmarks for replay” (Dev Mode) to rerun detection without a camera.
+      </div>
+
+      <div style={{ display: "flex", gap: 14, alignItems: "center", marginTop: 16, flexWrap: "wrap" }}>
+        <label style={{ opacity: 0.9 }}>
+          Recording
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void onLoad(file);
+            }}
+            style={{ marginLeft: 8 }}
+          />
+        </label>
+
+        <label style={{ opacity: 0.9 }}>
+          CLOSE_RATIO
+          <input
+            type="number"
+            step={0.01}
+            min={0.1}
+            max={1}
+            value={closeRatio}
+            onChange={(e) => setCloseRatio(Number(e.target.value))}
+            style={{ marginLeft: 8, padding: "4px 6px", width: 72 }}
+          />
+        </label>
+
+        <label style={{ opacity: 0.9 }}>
+          OPEN_RATIO
+          <input
+            type="number"
+            step={0.01}
+            min={0.1}
+            max={1}
+            value={openRatio}
+            onChange={(e) => setOpenRatio(Number(e.target.value))}
+            style={{ marginLeft: 8, padding: "4px 6px", width: 72 }}
+          />
+        </label>
+
+        <label style={{ opacity: 0.9 }}>
+          No-blink alert (s)
+          <input
+            type="number"
+            step={1}
+            min={1}
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            style={{ marginLeft: 8, padding: "4px 6px", width: 64 }}
+          />
+        </label>
+
+        <label style={{ display: "flex", alignItems: "center", gap: 6, opacity: 0.9 }}>
+          <input type="checkbox" checked={adaptive} onChange={(e) => setAdaptive(e.target.checked)} />
+          Adaptive baseline
+        </label>
+
+        <button
+          onClick={runReplay}
+          disabled={!recording}
+          style={{ padding: "6px 12px", cursor: recording ? "pointer" : "not-allowed" }}
+        >
+          Run replay
+        </button>
+
+        <button
+          onClick={playing ? stopPlayback : play}
+          disabled={!recording}
+          style={{ padding: "6px 12px", cursor: recording ? "pointer" : "not-allowed" }}
+        >
+          {playing ? "Stop playback" : "Play with overlay"}
+        </button>
+
+        <label style={{ opacity: 0.9 }}>
+          Speed
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            disabled={playing}
+            style={{ marginLeft: 8, padding: "4px 6px" }}
+          >
+            <option value={0.5}>0.5×</option>
+            <option value={1}>1×</option>
+            <option value={2}>2×</option>
+            <option value={4}>4×</option>
+          </select>
+        </label>
+      </div>
+
+      {fileError && <div style={{ marginTop: 16, color: "#ff4d4d" }}>Error: {fileError}</div>}
+
+      {recording && (
+        <div style={{ marginTop: 12, opacity: 0.85 }}>
+          {recording.frames.length} frames • {formatDuration(recording.durationMs)} • recorded{" "}
+          {new Date(recording.recordedAt).toLocaleString()}
+        </div>
+      )}
+
+      <div style={{ marginTop: 16, display: recording ? "block" : "none" }}>
+        <canvas
+          ref={canvasRef}
+          width={640}
+          height={480}
+          style={{ width: "min(640px, 100%)", borderRadius: 10, background: "#111" }}
+        />
+      </div>
+
+      {summary && (
+        <div
+          style={{
+            marginTop: 16,
+            width: "min(760px, 100%)",
+            background: "#111",
+            border: "1px solid #333",
+            borderRadius: 14,
+            padding: 24,
+            lineHeight: 1.9,
+          }}
+        >
+          <div style={{ fontSize: 22, fontWeight: 700, marginBottom: 8 }}>Replay Summary</div>
+          <div>
+            <b>Baseline EAR:</b> {result?.baselineEar === null ? "N/A" : result?.baselineEar.toFixed(3)}
+          </div>
+          <div>
+            <b>Baseline drift:</b>{" "}
+            {summary.baselineDriftPercent === null
+              ? "N/A"
+              : `${formatPercentChange(summary.baselineDriftPercent)} (largest ${formatPercentChange(
+                  summary.maxBaselineDriftPercent ?? 0,
+                )})`}
+          </div>
+          <div>
+            <b>Total blinks:</b> {summary.totalBlinks} • <b>Incomplete:</b> {summary.incompleteBlinks}
+          </div>
+          <div>
+            <b>Per-eye blinks (L / R):</b> {summary.leftEyeBlinks} / {summary.rightEyeBlinks} • <b>Winks:</b>{" "}
+            {summary.winks} • <b>One-eye closures:</b> {summary.oneEyeClosures}
+          </div>
+          <div>
+            <b>Average blinks / min:</b> {summary.averageBlinksPerMinute.toFixed(1)}
+          </div>
+          <div>
+            <b>Total alerts:</b> {summary.totalAlerts} • <b>Longest no-blink streak:</b>{" "}
+            {formatDuration(summary.longestNoBlinkMs)}
+          </div>
+          <div>
+            <b>Blink integral:</b> {formatSecondsMs(summary.blinkIntegralMs)}
+          </div>
+          <div>
+            <b>Blink duration:</b> mean {formatMs(summary.meanBlinkDurationMs)}, p90{" "}
+            {formatMs(summary.p90BlinkDurationMs)} • <b>Slow blinks:</b>{" "}
+            {summary.slowBlinkFraction === null ? "N/A" : `${(summary.slowBlinkFraction * 100).toFixed(1)}%`}
+          </div>
+          <div>
+            <b>Score:</b> {summary.score === null ? "N/A" : `${summary.score}/100`} ({summary.grade}) —{" "}
+            {summary.gradeReason}
+          </div>
+          <div style={{ marginTop: 12 }}>
+            <ScoreBreakdown factors={summary.scoreFactors} score={summary.score} />
+          </div>
+          <div style={{ marginTop: 12 }}>
+            <BlinkTimeline
+              events={summary.blinkEvents}
+              durationMs={summary.totalSessionTimeMs}
+              unilateral={summary.unilateralClosures}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+const WIDTH = 720;
+const HEIGHT = 220;
+const PAD = { top: 16, right: 16, bottom: 28, left: 48 };
+
+type ChartPoint = { x: number; y: number };
+
+function toPath(points: (ChartPoint | null)[]) {
+  let d = "";
+  let penDown = false;
+
+  for (const p of points) {
+    if (!p) {
+      penDown = false;
+      continue;
+    }
+    d += `${penDown ? "L" : "M"}${p.x.toFixed(1)},${p.y.toFixed(1)} `;
+    penDown = true;
+  }
+
+  return d.trim();
+}
+
+export default function TrendChart({
+  title,
+  times,
+  values,
+  rolling,
+  format,
+}: {
+  title: string;
+  times: number[];
+  values: (number | null)[];
+  rolling: (number | null)[];
+  format: (v: number) => string;
+}) {
+  const present = [...values, ...rolling].filter((v): v is number => v !== null);
+  const innerW = WIDTH - PAD.left - PAD.right;
+  const innerH = HEIGHT - PAD.top - PAD.bottom;
+
+  let min = present.length > 0 ? Math.min(...present) : 0;
+  let max = present.length > 0 ? Math.max(...present) : 1;
+  if (max - min < 1e-6) {
+    min -= 1;
+    max += 1;
+  }
+
+  // Points sit on a time scale, so gaps between sessions show as gaps on the chart.
+  const first = times.length > 0 ? Math.min(...times) : 0;
+  const last = times.length > 0 ? Math.max(...times) : 0;
+  const tAt = (t: number) => PAD.left + (last > first ? ((t - first) / (last - first)) * innerW : innerW / 2);
+  const xAt = (i: number) => tAt(times[i]);
+  const yAt = (v: number) => PAD.top + innerH - ((v - min) / (max - min)) * innerH;
+
+  const valuePoints = values.map((v, i) => (v === null ? null : { x: xAt(i), y: yAt(v) }));
+  const rollingPoints = rolling.map((v, i) => (v === null ? null : { x: xAt(i), y: yAt(v) }));
+
+  const labelTimes = last > first ? [first, first + (last - first) / 2, last] : [first];
+
+  return (
+    <div
+      style={{
+        background: "#111",
+        border: "1px solid #333",
+        borderRadius: 14,
+        padding: 16,
+        marginTop: 16,
+      }}
+    >
+      <div style={{ fontSize: 18, fontWeight: 700, marginBottom: 8 }}>{title}</div>
+
+      {present.length === 0 ? (
+        <div style={{ opacity: 0.8 }}>No data for this metric yet.</div>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ width: "100%", maxWidth: WIDTH, display: "block" }}>
+          <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + innerH} stroke="#333" />
+          <line x1={PAD.left} y1={PAD.top + innerH} x2={PAD.left + innerW} y2={PAD.top + innerH} stroke="#333" />
+
+          <text x={PAD.left - 6} y={PAD.top + 4} fill="#aaa" fontSize={11} textAnchor="end">
+            {format(max)}
+          </text>
+          <text x={PAD.left - 6} y={PAD.top + innerH} fill="#aaa" fontSize={11} textAnchor="end">
+            {format(min)}
+          </text>
+
+          {labelTimes.map((t) => (
+            <text key={t} x={tAt(t)} y={HEIGHT - 8} fill="#aaa" fontSize={11} textAnchor="middle">
+              {new Date(t).toLocaleDateString()}
+            </text>
+          ))}
+
+          <path d={toPath(valuePoints)} fill="none" stroke="#00bfff" strokeWidth={2} />
+          <path d={toPath(rollingPoints)} fill="none" stroke="#ffcc66" strokeWidth={2} strokeDasharray="6 4" />
+
+          {valuePoints.map((p, i) =>
+            p ? (
+              <circle key={i} cx={p.x} cy={p.y} r={3.5} fill="#00bfff">
+                <title>{`${new Date(times[i]).toLocaleDateString()}: ${format(values[i] as number)}`}</title>
+              </circle>
+            ) : null,
+          )}
+        </svg>
+      )}
+
+      <div style={{ display: "flex", gap: 16, fontSize: 13, opacity: 0.75, marginTop: 6 }}>
+        <span style={{ color: "#00bfff" }}>● Period value</span>
+        <span style={{ color: "#ffcc66" }}>- - Rolling average</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { StoredSession } from "@/lib/session";
+import { listSessions } from "@/lib/sessionStore";
+import { rollingAverage, rollupSessions, TREND_METRICS, type TrendPeriod } from "@/lib/trends";
+import TrendChart from "./TrendChart";
+
+export default function TrendsPage() {
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [period, setPeriod] = useState<TrendPeriod>("day");
+  const [rollingWindow, setRollingWindow] = useState(7);
+
+  useEffect(() => {
+    listSessions()
+      .then((s) => setSessions(s))
+      .catch((e: unknown) => setError(e instanceof Error ? e.message : "Failed to load session history."))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const buckets = rollupSessions(sessions, period);
+
+  return (
+    <div style={{ background: "#000", color: "#fff", minHeight: "100vh", padding: 20 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 16, flexWrap: "wrap" }}>
+        <h1 style={{ margin: 0 }}>Trends</h1>
+        <Link href="/" style={{ color: "#00bfff" }}>
+          Back to monitor
+        </Link>
+        <Link href="/history" style={{ color: "#00bfff" }}>
+          Session history
+        </Link>
+      </div>
+
+      <div style={{ display: "flex", gap: 14, alignItems: "center", marginTop: 16, flexWrap: "wrap" }}>
+        <label style={{ opacity: 0.9 }}>
+          Group by
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as TrendPeriod)}
+            style={{ marginLeft: 8, padding: "4px 6px" }}
+          >
+            <option value="day">Day</option>
+            <option value="week">Week</option>
+          </select>
+        </label>
+
+        <label style={{ opacity: 0.9 }}>
+          Rolling average over
+          <select
+            value={rollingWindow}
+            onChange={(e) => setRollingWindow(Number(e.target.value))}
+            style={{ marginLeft: 8, padding: "4px 6px" }}
+          >
+            <option value={3}>3 {period === "day" ? "days" : "weeks"}</option>
+            <option value={7}>7 {period === "day" ? "days" : "weeks"}</option>
+            <option value={14}>14 {period === "day" ? "days" : "weeks"}</option>
+          </select>
+        </label>
+
+        <div style={{ opacity: 0.75 }}>
+          {sessions.length} sessions in {buckets.length} {period === "day" ? "days" : "weeks"}
+        </div>
+      </div>
+
+      {error && <div style={{ marginTop: 16, color: "#ff4d4d" }}>Error: {error}</div>}
+
+      {loading ? (
+        <div style={{ marginTop: 16, opacity: 0.8 }}>Loading sessions…</div>
+      ) : buckets.length === 0 ? (
+        <div style={{ marginTop: 16, opacity: 0.8 }}>No saved sessions yet. Complete a session to see trends.</div>
+      ) : (
+        TREND_METRICS.map(({ metric, label, format }) => {
+          return (
+            <TrendChart
+              key={metric}
+              title={label}
+              times={buckets.map((b) => b.start)}
+              values={buckets.map((b) => b.values[metric])}
+              rolling={rollingAverage(buckets, metric, period, rollingWindow)}
+              format={format}
+            />
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ALERT_CHANNELS,
+  ALERT_TONES,
+  DEFAULT_ALERT_SETTINGS,
+  ESCALATING_ALERT_STEPS,
+  MAX_CUSTOM_SOUND_BYTES,
+  createAlertController,
+  type AlertSettings,
+  type AlertStep,
+  type AlertTone,
+} from "@/lib/alerts";
+
+const cellStyle = { padding: "4px 8px", borderBottom: "1px solid #222", textAlign: "left" as const };
+const numberStyle = { padding: "4px 6px", width: 56 };
+
+function readDataUrl(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error("Could not read the audio file."));
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function AlertSettingsPanel({
+  settings,
+  onChange,
+  notify,
+  disabled = false,
+}: {
+  settings: AlertSettings;
+  // Returns false when the settings could not be saved.
+  onChange: (settings: AlertSettings) => boolean;
+  notify: (title: string, body: string) => void;
+  disabled?: boolean;
+}) {
+  const [error, setError] = useState<string | null>(null);
+
+  function update(next: AlertSettings) {
+    setError(onChange(next) ? null : "Settings could not be saved (the custom sound may be too large).");
+  }
+
+  function updateStep(index: number, patch: Partial<AlertStep>) {
+    update({ ...settings, steps: settings.steps.map((s, i) => (i === index ? { ...s, ...patch } : s)) });
+  }
+
+  function setTone(tone: AlertTone) {
+    if (tone === "custom" && !settings.customSound) {
+      setError("Choose an audio file first.");
+      return;
+    }
+    update({ ...settings, tone });
+  }
+
+  async function onFile(file: File | undefined) {
+    if (!file) return;
+    if (file.size > MAX_CUSTOM_SOUND_BYTES) {
+      setError(`Audio files must be smaller than ${MAX_CUSTOM_SOUND_BYTES / (1024 * 1024)} MB.`);
+      return;
+    }
+    try {
+      update({ ...settings, tone: "custom", customSound: await readDataUrl(file), customSoundName: file.name });
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Could not read the audio file.");
+    }
+  }
+
+  function preview(step: AlertStep) {
+    const controller = createAlertController({ ...settings, steps: [step] }, notify);
+    controller.preview(0);
+    setTimeout(() => controller.dispose(), 3000);
+  }
+
+  return (
+    <div
+      style={{
+        marginTop: 16,
+        width: "min(760px, 100%)",
+        background: "#111",
+        border: "1px solid #333",
+        borderRadius: 14,
+        padding: 16,
+      }}
+    >
+      <div style={{ fontSize: 18, fontWeight: 700 }}>Alert settings</div>
+      <div style={{ marginTop: 6, fontSize: 13, opacity: 0.75, lineHeight: 1.5 }}>
+        Each level starts the given number of seconds into a no-blink alert and repeats its sound, flash and speech
+        until the next level takes over. Notifications and the tab badge fire when a level starts.
+      </div>
+
+      <div style={{ display: "flex", gap: 14, alignItems: "center", marginTop: 12, flexWrap: "wrap" }}>
+        <label style={{ opacity: 0.9 }}>
+          Tone
+          <select
+            value={settings.tone}
+            onChange={(e) => setTone(e.target.value as AlertTone)}
+            disabled={disabled}
+            style={{ marginLeft: 8, padding: "4px 6px" }}
+          >
+            {ALERT_TONES.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.label}
+                {t.id === "custom" && settings.customSoundName ? ` (${settings.customSoundName})` : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label style={{ opacity: 0.9 }}>
+          Audio file
+          <input
+            type="file"
+            accept="audio/*"
+            onChange={(e) => void onFile(e.target.files?.[0])}
+            disabled={disabled}
+            style={{ marginLeft: 8 }}
+          />
+        </label>
+
+        <label style={{ opacity: 0.9 }}>
+          Spoken text
+          <input
+            type="text"
+            value={settings.speechText}
+            onChange={(e) => update({ ...settings, speechText: e.target.value })}
+            disabled={disabled}
+            style={{ marginLeft: 8, padding: "4px 6px", width: 180 }}
+          />
+        </label>
+      </div>
+
+      <div style={{ overflowX: "auto", marginTop: 12 }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr style={{ opacity: 0.75 }}>
+              <th style={cellStyle}>Level</th>
+              <th style={cellStyle}>After (s)</th>
+              <th style={cellStyle}>Repeat (s)</th>
+              <th style={cellStyle}>Volume</th>
+              <th style={cellStyle}>Channels</th>
+              <th style={cellStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {settings.steps.map((step, i) => (
+              <tr key={i}>
+                <td style={cellStyle}>{i + 1}</td>
+                <td style={cellStyle}>
+                  <input
+                    type="number"
+                    min={0}
+                    value={step.afterSec}
+                    onChange={(e) => updateStep(i, { afterSec: Math.max(0, Number(e.target.value) || 0) })}
+                    disabled={disabled}
+                    style={numberStyle}
+                  />
+                </td>
+                <td style={cellStyle}>
+                  <input
+                    type="number"
+                    min={0.5}
+                    step={0.5}
+                    value={step.repeatSec}
+                    onChange={(e) => updateStep(i, { repeatSec: Math.max(0.5, Number(e.target.value) || 0.5) })}
+                    disabled={disabled}
+                    style={numberStyle}
+                  />
+                </td>
+                <td style={cellStyle}>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={step.volume}
+                    onChange={(e) => updateStep(i, { volume: Number(e.target.value) })}
+                    disabled={disabled}
+                  />
+                </td>
+                <td style={cellStyle}>
+                  {ALERT_CHANNELS.map((c) => (
+                    <label key={c.id} style={{ marginRight: 10, whiteSpace: "nowrap" }}>
+                      <input
+                        type="checkbox"
+                        checked={step.channels.includes(c.id)}
+                        onChange={(e) =>
+                          updateStep(i, {
+                            channels: e.target.checked
+                              ? [...step.channels, c.id]
+                              : step.channels.filter((x) => x !== c.id),
+                          })
+                        }
+                        disabled={disabled}
+                        style={{ marginRight: 4 }}
+                      />
+                      {c.label}
+                    </label>
+                  ))}
+                </td>
+                <td style={{ ...cellStyle, whiteSpace: "nowrap" }}>
+                  <button onClick={() => preview(step)} style={{ padding: "2px 8px", cursor: "pointer" }}>
+                    Test
+                  </button>
+                  {settings.steps.length > 1 && (
+                    <button
+                      onClick={() => update({ ...settings, steps: settings.steps.filter((_, j) => j !== i) })}
+                      disabled={disabled}
+                      style={{ marginLeft: 6, padding: "2px 8px", cursor: "pointer" }}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={{ display: "flex", gap: 10, marginTop: 12, flexWrap: "wrap" }}>
+        <button
+          onClick={() => {
+            const last = settings.steps[settings.steps.length - 1];
+            update({
+              ...settings,
+              steps: [...settings.steps, { ...last, afterSec: last.afterSec + 5, volume: Math.min(1, last.volume * 2) }],
+            });
+          }}
+          disabled={disabled}
+          style={{ padding: "6px 12px", cursor: "pointer" }}
+        >
+          Add level
+        </button>
+        <button
+          onClick={() => update({ ...settings, steps: ESCALATING_ALERT_STEPS })}
+          disabled={disabled}
+          style={{ padding: "6px 12px", cursor: "pointer" }}
+        >
+          Use escalating preset
+        </button>
+        <button
+          onClick={() => update(DEFAULT_ALERT_SETTINGS)}
+          disabled={disabled}
+          style={{ padding: "6px 12px", cursor: "pointer" }}
+        >
+          Reset to default
+        </button>
+      </div>
+
+      {error && <div style={{ marginTop: 10, color: "#ff4d4d" }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+export type CueVariant = "vignette" | "dot" | "dim";
+
+export const CUE_VARIANTS: { id: CueVariant; label: string }[] = [
+  { id: "vignette", label: "Edge glow" },
+  { id: "dot", label: "Pulsing dot" },
+  { id: "dim", label: "Dimming" },
+];
+
+// Non-blocking prompt drawn over the page; `level` runs from 0 (cue just
+// started) to 1 (no-blink threshold reached).
+export default function BlinkCue({ level, variant }: { level: number; variant: CueVariant }) {
+  const l = Math.min(1, Math.max(0, level));
+
+  if (variant === "dot") {
+    return (
+      <div
+        aria-hidden="true"
+        style={{
+          position: "fixed",
+          right: 24,
+          bottom: 24,
+          width: 18,
+          height: 18,
+          borderRadius: "50%",
+          background: "#00bfff",
+          boxShadow: `0 0 ${8 + 16 * l}px rgba(0,191,255,${0.4 + 0.5 * l})`,
+          animation: `blink-cue-pulse ${(2.4 - 1.4 * l).toFixed(2)}s ease-in-out infinite`,
+          pointerEvents: "none",
+          zIndex: 9998,
+        }}
+      />
+    );
+  }
+
+  return (
+    <div
+      aria-hidden="true"
+      style={{
+        position: "fixed",
+        inset: 0,
+        pointerEvents: "none",
+        zIndex: 9998,
+        transition: "box-shadow 300ms linear, background 300ms linear",
+        ...(variant === "dim"
+          ? { background: `rgba(0,0,0,${(0.1 + 0.35 * l).toFixed(3)})` }
+          : {
+              boxShadow: `inset 0 0 ${60 + 140 * l}px ${10 + 30 * l}px rgba(0,191,255,${(0.15 + 0.45 * l).toFixed(3)})`,
+            }),
+      }}
+    />
+  );
+}
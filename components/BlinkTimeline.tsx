@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import { formatDuration } from "@/lib/format";
+import { blinkDurationMs, type BlinkEvent, type UnilateralClosure } from "@/lib/session";
+
+const WIDTH = 720;
+const HEIGHT = 110;
+const PAD = { top: 10, right: 10, bottom: 22, left: 10 };
+const ASYMMETRY_HIGHLIGHT = 0.25;
+
+const cellStyle = { padding: "4px 8px", borderBottom: "1px solid #222", textAlign: "left" as const };
+
+export default function BlinkTimeline({
+  events,
+  durationMs,
+  unilateral = [],
+}: {
+  events: BlinkEvent[];
+  durationMs: number;
+  unilateral?: UnilateralClosure[];
+}) {
+  const [showLog, setShowLog] = useState(false);
+
+  const innerW = WIDTH - PAD.left - PAD.right;
+  const innerH = HEIGHT - PAD.top - PAD.bottom;
+  const span = Math.max(1, durationMs);
+  const xAt = (ms: number) => PAD.left + (Math.min(ms, span) / span) * innerW;
+
+  return (
+    <div>
+      {events.length === 0 && unilateral.length === 0 ? (
+        <div style={{ opacity: 0.8 }}>No blinks recorded.</div>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ width: "100%", maxWidth: WIDTH, display: "block" }}>
+          <line
+            x1={PAD.left}
+            y1={PAD.top + innerH}
+            x2={PAD.left + innerW}
+            y2={PAD.top + innerH}
+            stroke="#333"
+          />
+
+          {events.map((e, i) => {
+            const x = xAt(e.startMs);
+            const w = Math.max(1.5, xAt(e.endMs) - x);
+            const h = Math.max(2, e.closureDepth * innerH);
+            return (
+              <rect
+                key={i}
+                x={x}
+                y={PAD.top + innerH - h}
+                width={w}
+                height={h}
+                fill={e.asymmetry > ASYMMETRY_HIGHLIGHT ? "#ffcc66" : "#00bfff"}
+              >
+                <title>
+                  {`#${i + 1} at ${formatDuration(e.startMs)} • ${blinkDurationMs(e).toFixed(0)} ms • depth ${(
+                    e.closureDepth * 100
+                  ).toFixed(0)}% • asymmetry ${e.asymmetry.toFixed(2)}`}
+                </title>
+              </rect>
+            );
+          })}
+
+          {unilateral.map((c, i) => {
+            const x = xAt(c.startMs);
+            return (
+              <rect
+                key={`u${i}`}
+                x={x}
+                y={c.eye === "left" ? PAD.top : PAD.top + 6}
+                width={Math.max(1.5, xAt(c.endMs) - x)}
+                height={5}
+                fill={c.kind === "wink" ? "#c080ff" : "#ff66cc"}
+              >
+                <title>
+                  {`${c.kind === "wink" ? "Wink" : "One-eye closure"} (${c.eye}) at ${formatDuration(c.startMs)} • ${(
+                    c.endMs - c.startMs
+                  ).toFixed(0)} ms`}
+                </title>
+              </rect>
+            );
+          })}
+
+          <text x={PAD.left} y={HEIGHT - 6} fill="#aaa" fontSize={11}>
+            00:00:00
+          </text>
+          <text x={PAD.left + innerW} y={HEIGHT - 6} fill="#aaa" fontSize={11} textAnchor="end">
+            {formatDuration(durationMs)}
+          </text>
+        </svg>
+      )}
+
+      <div style={{ display: "flex", gap: 16, fontSize: 13, opacity: 0.75, marginTop: 6, flexWrap: "wrap" }}>
+        <span>Bar height = closure depth</span>
+        <span style={{ color: "#ffcc66" }}>■ Left/right asymmetric blink</span>
+        {unilateral.length > 0 && (
+          <>
+            <span style={{ color: "#c080ff" }}>■ Wink</span>
+            <span style={{ color: "#ff66cc" }}>■ One-eye closure</span>
+          </>
+        )}
+        {events.length > 0 && (
+          <button onClick={() => setShowLog(!showLog)} style={{ padding: "2px 8px", cursor: "pointer" }}>
+            {showLog ? "Hide blink log" : "Show blink log"}
+          </button>
+        )}
+      </div>
+
+      {showLog && (
+        <div style={{ maxHeight: 240, overflowY: "auto", marginTop: 8 }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr style={{ opacity: 0.75 }}>
+                <th style={cellStyle}>#</th>
+                <th style={cellStyle}>Start</th>
+                <th style={cellStyle}>Duration</th>
+                <th style={cellStyle}>Closing / closed / reopening</th>
+                <th style={cellStyle}>Closed frames</th>
+                <th style={cellStyle}>Min EAR (L / R)</th>
+                <th style={cellStyle}>Depth</th>
+                <th style={cellStyle}>Asymmetry</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((e, i) => (
+                <tr key={i}>
+                  <td style={cellStyle}>{i + 1}</td>
+                  <td style={cellStyle}>{formatDuration(e.startMs)}</td>
+                  <td style={cellStyle}>{blinkDurationMs(e).toFixed(0)} ms</td>
+                  <td style={cellStyle}>
+                    {e.closingMs.toFixed(0)} / {e.closedMs.toFixed(0)} / {e.reopeningMs.toFixed(0)} ms
+                  </td>
+                  <td style={cellStyle}>{e.closedFrames}</td>
+                  <td style={cellStyle}>
+                    {e.minEar.toFixed(3)} ({e.minLeftEar.toFixed(3)} / {e.minRightEar.toFixed(3)})
+                  </td>
+                  <td style={cellStyle}>{(e.closureDepth * 100).toFixed(0)}%</td>
+                  <td style={cellStyle}>{e.asymmetry.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import {
+  calibrationSteps,
+  describeCalibrationQuality,
+  type CalibrationProgress,
+  type CalibrationResult,
+} from "@/lib/calibration";
+
+const QUALITY_COLORS = { good: "#00ff88", fair: "#ffcc66", poor: "#ff4d4d" };
+
+export default function CalibrationPanel({
+  progress,
+  result,
+  closedStep,
+  blinkCount,
+  recheckOf,
+  onRetry,
+  onFullCalibration,
+}: {
+  progress: CalibrationProgress | null;
+  result: CalibrationResult | null;
+  closedStep: boolean;
+  blinkCount: number;
+  // Name of the saved profile being re-checked, null for a full calibration.
+  recheckOf: string | null;
+  onRetry: () => void;
+  onFullCalibration: () => void;
+}) {
+  const steps = calibrationSteps(closedStep, recheckOf !== null);
+  const current = steps.find((s) => s.id === progress?.step) ?? null;
+  const currentIndex = current ? steps.indexOf(current) : steps.length;
+
+  return (
+    <div
+      style={{
+        marginTop: 16,
+        width: "min(760px, 100%)",
+        background: "#111",
+        border: `1px solid ${result && !result.reliable ? "#ff4d4d" : "#333"}`,
+        borderRadius: 14,
+        padding: 16,
+      }}
+    >
+      <div style={{ fontSize: 18, fontWeight: 700 }}>
+        {recheckOf === null ? "Calibration" : `Quick re-check of “${recheckOf}”`}
+      </div>
+
+      {!result && (
+        <>
+          <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap" }}>
+            {steps.map((s, i) => (
+              <div
+                key={s.id}
+                style={{
+                  padding: "4px 10px",
+                  borderRadius: 8,
+                  border: `1px solid ${i === currentIndex ? "#00bfff" : "#222"}`,
+                  opacity: i > currentIndex ? 0.5 : 1,
+                }}
+              >
+                {i + 1}. {s.label}
+                {i < currentIndex && " ✓"}
+              </div>
+            ))}
+          </div>
+
+          {current && (
+            <>
+              <div style={{ marginTop: 12, fontSize: 20, fontWeight: 700 }}>{current.instruction}</div>
+              {current.id === "blinks" && (
+                <div style={{ marginTop: 6, opacity: 0.9 }}>
+                  Blinks detected: <b>{progress?.blinksDetected ?? 0}</b> of <b>{blinkCount}</b>
+                </div>
+              )}
+              <div style={{ marginTop: 10, height: 8, borderRadius: 4, background: "#222", overflow: "hidden" }}>
+                <div
+                  style={{ width: `${(progress?.stepProgress ?? 0) * 100}%`, height: "100%", background: "#00bfff" }}
+                />
+              </div>
+            </>
+          )}
+
+          {!progress && <div style={{ marginTop: 12, opacity: 0.8 }}>Waiting for the camera…</div>}
+
+          {progress && !progress.faceUsable && (
+            <div style={{ marginTop: 10, color: "#ffcc66" }}>
+              Face not usable — face the camera and keep your head within view.
+            </div>
+          )}
+        </>
+      )}
+
+      {result && (
+        <>
+          <div style={{ marginTop: 8, fontSize: 17 }}>
+            Quality{" "}
+            <b style={{ color: QUALITY_COLORS[describeCalibrationQuality(result.quality)] }}>
+              {result.quality}/100 ({describeCalibrationQuality(result.quality)})
+            </b>
+            {!result.reliable && <span style={{ color: "#ff4d4d" }}> — not reliable enough to start monitoring</span>}
+          </div>
+
+          <div style={{ marginTop: 8, fontSize: 13, opacity: 0.8, lineHeight: 1.6 }}>
+            {[
+              `Open EAR ${result.openEar.toFixed(3)} (L ${result.leftOpenEar.toFixed(3)} / R ${result.rightOpenEar.toFixed(3)})`,
+              `closed EAR ${result.closedEar.toFixed(3)}`,
+              `contrast ${(result.contrast * 100).toFixed(0)}%`,
+              `face usable ${(result.faceCoverage * 100).toFixed(0)}%`,
+              `open-eye variation ${(result.openVariation * 100).toFixed(1)}%`,
+              `blinks ${result.blinksDetected}`,
+              ...(result.reliable
+                ? [
+                    `thresholds: closed below ${(result.closeRatio * 100).toFixed(0)}%, ` +
+                      `open above ${(result.openRatio * 100).toFixed(0)}% of the open EAR`,
+                  ]
+                : []),
+            ].join(" • ")}
+          </div>
+
+          {result.issues.length > 0 && (
+            <ul style={{ marginTop: 10, marginBottom: 0, paddingLeft: 20, lineHeight: 1.6 }}>
+              {result.issues.map((issue, i) => (
+                <li key={i} style={{ color: issue.blocking ? "#ff4d4d" : "#ffcc66" }}>
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!result.reliable && (
+            <div style={{ display: "flex", gap: 10, marginTop: 12, flexWrap: "wrap" }}>
+              <button onClick={onRetry} style={{ padding: "6px 12px", cursor: "pointer" }}>
+                {recheckOf === null ? "Retry calibration" : "Retry re-check"}
+              </button>
+              {recheckOf !== null && (
+                <button onClick={onFullCalibration} style={{ padding: "6px 12px", cursor: "pointer" }}>
+                  Run full calibration
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import { createSessionId } from "@/lib/session";
+import {
+  createEventPublisher,
+  EVENT_CHANNEL_NAME,
+  parseEventApiSettings,
+  type EventApiSettings,
+} from "@/lib/eventApi";
+
+export default function EventApiPanel({
+  settings,
+  onChange,
+  deliveryError,
+  disabled = false,
+}: {
+  settings: EventApiSettings;
+  onChange: (settings: EventApiSettings) => void;
+  // Last delivery failure reported during a session, if any.
+  deliveryError: string | null;
+  disabled?: boolean;
+}) {
+  const [webhookUrl, setWebhookUrl] = useState(settings.webhookUrl);
+  const [broadcastChannel, setBroadcastChannel] = useState(settings.broadcastChannel);
+  const [postMessage, setPostMessage] = useState(settings.postMessage);
+  const [postMessageOrigin, setPostMessageOrigin] = useState(settings.postMessageOrigin);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  function readForm(): EventApiSettings | null {
+    try {
+      return parseEventApiSettings({ webhookUrl, broadcastChannel, postMessage, postMessageOrigin });
+    } catch (e: unknown) {
+      setMessage({ text: e instanceof Error ? e.message : "Invalid settings.", error: true });
+      return null;
+    }
+  }
+
+  function onSave() {
+    const next = readForm();
+    if (!next) return;
+    onChange(next);
+    setMessage({ text: "Event API settings saved.", error: false });
+  }
+
+  function onTest() {
+    const next = readForm();
+    if (!next) return;
+    const publisher = createEventPublisher(next, createSessionId(), (text) => setMessage({ text, error: true }));
+    publisher.publish({ type: "test" }, 0);
+    publisher.dispose();
+    setMessage({ text: "Test event sent.", error: false });
+  }
+
+  return (
+    <div
+      style={{
+        marginTop: 16,
+        width: "min(760px, 100%)",
+        background: "#111",
+        border: "1px solid #333",
+        borderRadius: 14,
+        padding: 16,
+      }}
+    >
+      <div style={{ fontSize: 18, fontWeight: 700 }}>Event API</div>
+      <div style={{ marginTop: 6, fontSize: 13, opacity: 0.75, lineHeight: 1.5 }}>
+        Sends blink, alert, face, calibration and session summary events to other tools. The event format is described
+        in the README. BroadcastChannel messages use the channel name <code>{EVENT_CHANNEL_NAME}</code>.
+      </div>
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 10, marginTop: 12 }}>
+        <label style={{ opacity: 0.9 }}>
+          Webhook URL
+          <input
+            type="url"
+            value={webhookUrl}
+            placeholder="http://localhost:8787/events"
+            onChange={(e) => setWebhookUrl(e.target.value)}
+            disabled={disabled}
+            style={{ marginLeft: 8, padding: "4px 6px", width: 320 }}
+          />
+        </label>
+
+        <label style={{ opacity: 0.9 }}>
+          <input
+            type="checkbox"
+            checked={broadcastChannel}
+            onChange={(e) => setBroadcastChannel(e.target.checked)}
+            disabled={disabled}
+            style={{ marginRight: 8 }}
+          />
+          Broadcast to other tabs (BroadcastChannel)
+        </label>
+
+        <label style={{ opacity: 0.9 }}>
+          <input
+            type="checkbox"
+            checked={postMessage}
+            onChange={(e) => setPostMessage(e.target.checked)}
+            disabled={disabled}
+            style={{ marginRight: 8 }}
+          />
+          Post to the embedding page (window.postMessage) with target origin
+          <input
+            type="text"
+            value={postMessageOrigin}
+            onChange={(e) => setPostMessageOrigin(e.target.value)}
+            placeholder="embedding page's origin"
+            disabled={disabled || !postMessage}
+            style={{ marginLeft: 8, padding: "4px 6px", width: 200 }}
+          />
+        </label>
+      </div>
+
+      <div style={{ display: "flex", gap: 10, marginTop: 12, flexWrap: "wrap" }}>
+        <button onClick={onSave} disabled={disabled} style={{ padding: "6px 12px", cursor: "pointer" }}>
+          Save
+        </button>
+        <button onClick={onTest} style={{ padding: "6px 12px", cursor: "pointer" }}>
+          Send test event
+        </button>
+      </div>
+
+      {message && (
+        <div style={{ marginTop: 10, color: message.error ? "#ff4d4d" : "#00ff88" }}>{message.text}</div>
+      )}
+      {deliveryError && <div style={{ marginTop: 10, color: "#ff4d4d" }}>{deliveryError}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import type { ScoringFactor, ScoringMetric } from "@/lib/grading";
+
+const cellStyle = { padding: "4px 8px", borderBottom: "1px solid #222", textAlign: "left" as const };
+
+const METRICS: Record<ScoringMetric, { label: string; format: (v: number) => string; tip: string }> = {
+  sessionLength: {
+    label: "Visible session length",
+    format: (v) => `${v.toFixed(1)} min`,
+    tip: "Run longer sessions so the averages have enough data.",
+  },
+  blinkRate: {
+    label: "Blink rate",
+    format: (v) => `${v.toFixed(1)} / min`,
+    tip: "Aim for a relaxed, regular blink rate; the alert threshold can remind you while you adjust.",
+  },
+  incompleteRatio: {
+    label: "Incomplete blinks",
+    format: (v) => `${(v * 100).toFixed(0)}%`,
+    tip: "Try to close your eyes fully when you blink; a few deliberate full blinks every few minutes help.",
+  },
+  alerts: {
+    label: "No-blink alerts",
+    format: (v) => v.toFixed(0),
+    tip: "Alerts mean you went past the threshold; look away from the screen briefly when you notice a stare.",
+  },
+  longestNoBlink: {
+    label: "Longest no-blink streak",
+    format: (v) => `${v.toFixed(1)} s`,
+    tip: "Long streaks usually happen during focused reading; break them with a conscious blink.",
+  },
+  visibility: {
+    label: "Face visibility",
+    format: (v) => `${v.toFixed(1)}%`,
+    tip: "Keep your face centred and well lit, and avoid turning far away from the camera.",
+  },
+  compliance: {
+    label: "Blink compliance",
+    format: (v) => `${v.toFixed(1)}%`,
+    tip: "Spend less time above the no-blink threshold by blinking as soon as the alert appears.",
+  },
+  blinkIntegral: {
+    label: "Eye-closure time",
+    format: (v) => `${(v / 1000).toFixed(2)} s / min`,
+    tip: "Short or shallow blinks add up to little closure time; slower, complete blinks raise it.",
+  },
+  blinkSpacing: {
+    label: "Average blink spacing",
+    format: (v) => `${v.toFixed(1)} s`,
+    tip: "Spread blinks evenly; very long gaps or bursts of blinks both lower the score.",
+  },
+  spacingConsistency: {
+    label: "Spacing variability (CV)",
+    format: (v) => v.toFixed(2),
+    tip: "A steadier rhythm lowers variability; regular short screen breaks help.",
+  },
+  slowBlinks: {
+    label: "Slow blinks",
+    format: (v) => `${(v * 100).toFixed(0)}%`,
+    tip: "Many slow blinks can be a sign of tiredness; consider taking a break.",
+  },
+};
+
+export default function ScoreBreakdown({ factors, score }: { factors: ScoringFactor[]; score: number | null }) {
+  if (factors.length === 0) {
+    return <div style={{ opacity: 0.8 }}>No score breakdown available for this session.</div>;
+  }
+
+  const deducted = factors.reduce((acc, f) => acc + f.points, 0);
+
+  return (
+    <div style={{ overflowX: "auto" }}>
+      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+        <thead>
+          <tr style={{ opacity: 0.75 }}>
+            <th style={cellStyle}>Factor</th>
+            <th style={cellStyle}>Value</th>
+            <th style={cellStyle}>Band</th>
+            <th style={cellStyle}>Points</th>
+            <th style={cellStyle}>How to improve</th>
+          </tr>
+        </thead>
+        <tbody>
+          {factors.map((f) => {
+            const info = METRICS[f.metric];
+            return (
+              <tr key={f.metric} style={{ opacity: f.points > 0 ? 1 : 0.6 }}>
+                <td style={cellStyle}>{info.label}</td>
+                <td style={cellStyle}>{info.format(f.value)}</td>
+                <td style={cellStyle}>{f.band ?? "ok"}</td>
+                <td style={{ ...cellStyle, color: f.points > 0 ? "#ff4d4d" : undefined }}>
+                  {f.points > 0 ? `−${f.points}` : "0"}
+                </td>
+                <td style={cellStyle}>{f.points > 0 ? info.tip : ""}</td>
+              </tr>
+            );
+          })}
+          <tr>
+            <td style={cellStyle} colSpan={3}>
+              <b>Total</b>
+            </td>
+            <td style={cellStyle}>
+              <b>{deducted > 0 ? `−${deducted}` : "0"}</b>
+            </td>
+            <td style={cellStyle}>
+              {score === null ? "" : `100 − ${deducted} = ${score}${deducted > 100 ? " (floored at 0)" : ""}`}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import type { StoredSession } from "@/lib/session";
+import { parseServerSyncSettings, uploadSession, type ServerSyncSettings } from "@/lib/serverSync";
+
+const inputStyle = { marginLeft: 8, padding: "4px 6px", width: 220 };
+
+export default function ServerSyncPanel({
+  settings,
+  onChange,
+  sessions,
+}: {
+  settings: ServerSyncSettings;
+  onChange: (settings: ServerSyncSettings) => void;
+  // Sessions uploaded by "Upload shown".
+  sessions: StoredSession[];
+}) {
+  const [draft, setDraft] = useState(settings);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  function save() {
+    try {
+      const next = parseServerSyncSettings(draft);
+      setDraft(next);
+      onChange(next);
+      setMessage({ text: "Saved.", error: false });
+    } catch (e: unknown) {
+      setMessage({ text: e instanceof Error ? e.message : "Invalid settings.", error: true });
+    }
+  }
+
+  async function uploadShown() {
+    setUploading(true);
+    let created = 0;
+    let done = 0;
+    try {
+      for (const s of sessions) {
+        if (await uploadSession(settings, s)) created++;
+        done++;
+      }
+      setMessage({
+        text: `Uploaded ${done} session${done === 1 ? "" : "s"} (${created} new, ${done - created} replaced).`,
+        error: false,
+      });
+    } catch (e: unknown) {
+      const reason = e instanceof Error ? e.message : "unknown error";
+      setMessage({ text: `Upload stopped after ${done} session${done === 1 ? "" : "s"}. ${reason}`, error: true });
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  return (
+    <div
+      style={{
+        marginTop: 16,
+        width: "min(760px, 100%)",
+        background: "#111",
+        border: "1px solid #333",
+        borderRadius: 14,
+        padding: 16,
+      }}
+    >
+      <div style={{ fontSize: 18, fontWeight: 700 }}>Server sync</div>
+      <div style={{ marginTop: 6, fontSize: 13, opacity: 0.75, lineHeight: 1.5 }}>
+        Uploads sessions to the <code>/api/sessions</code> endpoint of a server running this app. Leave the URL empty to
+        use the server this page came from. Local history is kept either way.
+      </div>
+
+      <div style={{ display: "flex", gap: 14, alignItems: "center", marginTop: 12, flexWrap: "wrap" }}>
+        <label style={{ opacity: 0.9 }}>
+          Server URL
+          <input
+            type="url"
+            placeholder="http://lab-server:3000"
+            value={draft.serverUrl}
+            onChange={(e) => setDraft({ ...draft, serverUrl: e.target.value })}
+            style={inputStyle}
+          />
+        </label>
+        <label style={{ opacity: 0.9 }}>
+          Machine name
+          <input
+            type="text"
+            maxLength={80}
+            value={draft.machine}
+            onChange={(e) => setDraft({ ...draft, machine: e.target.value })}
+            style={inputStyle}
+          />
+        </label>
+        <label style={{ opacity: 0.9 }}>
+          API token
+          <input
+            type="password"
+            value={draft.token}
+            onChange={(e) => setDraft({ ...draft, token: e.target.value })}
+            style={inputStyle}
+          />
+        </label>
+        <label style={{ opacity: 0.9 }}>
+          <input
+            type="checkbox"
+            checked={draft.autoUpload}
+            onChange={(e) => setDraft({ ...draft, autoUpload: e.target.checked })}
+            style={{ marginRight: 6 }}
+          />
+          Upload each session when it ends
+        </label>
+      </div>
+
+      <div style={{ display: "flex", gap: 10, marginTop: 12, flexWrap: "wrap" }}>
+        <button onClick={save} style={{ padding: "6px 12px", cursor: "pointer" }}>
+          Save
+        </button>
+        <button
+          onClick={() => void uploadShown()}
+          disabled={uploading || sessions.length === 0}
+          style={{ padding: "6px 12px", cursor: uploading || sessions.length === 0 ? "not-allowed" : "pointer" }}
+        >
+          {uploading ? "Uploading…" : `Upload shown (${sessions.length})`}
+        </button>
+      </div>
+
+      {message && <div style={{ marginTop: 10, color: message.error ? "#ff4d4d" : "#00ff88" }}>{message.text}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import type { StoredSession } from "@/lib/session";
+import {
+  downloadFile,
+  exportFileName,
+  sessionsToJson,
+  summariesToCsv,
+  timelineToCsv,
+} from "@/lib/sessionExport";
+
+const buttonStyle = { padding: "10px 16px", cursor: "pointer" };
+
+export default function SessionExportButtons({ session }: { session: StoredSession }) {
+  return (
+    <>
+      <button
+        onClick={() => downloadFile(exportFileName(session, "json"), sessionsToJson([session]), "application/json")}
+        style={buttonStyle}
+      >
+        Export JSON
+      </button>
+
+      <button
+        onClick={() =>
+          downloadFile(exportFileName(session, "summary.csv"), summariesToCsv([session]), "text/csv")
+        }
+        style={buttonStyle}
+      >
+        Export summary CSV
+      </button>
+
+      <button
+        onClick={() =>
+          downloadFile(exportFileName(session, "timeline.csv"), timelineToCsv(session), "text/csv")
+        }
+        style={buttonStyle}
+      >
+        Export timeline CSV
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,364 @@
+// Alert channels and escalation. An alert runs through a list of levels; each
+// level starts `afterSec` into the alert and fires its channels every
+// `repeatSec` until the next level takes over or the alert ends.
+
+declare global {
+  interface Window {
+    // Safari before 14.1.
+    webkitAudioContext?: typeof AudioContext;
+  }
+}
+
+export type AlertChannel = "sound" | "notification" | "flash" | "badge" | "speech";
+
+export type AlertTone = "beep" | "soft" | "chime" | "buzzer" | "custom";
+
+export type AlertStep = {
+  afterSec: number;
+  repeatSec: number;
+  // 0–1; applies to the sound and speech channels.
+  volume: number;
+  channels: AlertChannel[];
+};
+
+export type AlertSettings = {
+  tone: AlertTone;
+  // Data URL of a user-chosen audio file, used when `tone` is "custom".
+  customSound: string | null;
+  customSoundName: string | null;
+  speechText: string;
+  steps: AlertStep[];
+};
+
+export type AlertMessage = { title: string; body: string; speech: string };
+
+export const ALERT_CHANNELS: { id: AlertChannel; label: string }[] = [
+  { id: "sound", label: "Sound" },
+  { id: "notification", label: "Notification" },
+  { id: "flash", label: "Screen flash" },
+  { id: "badge", label: "Tab badge" },
+  { id: "speech", label: "Speech" },
+];
+
+export const ALERT_TONES: { id: AlertTone; label: string }[] = [
+  { id: "beep", label: "Beep" },
+  { id: "soft", label: "Soft" },
+  { id: "chime", label: "Chime" },
+  { id: "buzzer", label: "Buzzer" },
+  { id: "custom", label: "Custom file" },
+];
+
+// Same as the original hardwired alarm: a quiet beep every 2 s plus a notification.
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  tone: "beep",
+  customSound: null,
+  customSoundName: null,
+  speechText: "Please blink.",
+  steps: [{ afterSec: 0, repeatSec: 2, volume: 0.2, channels: ["sound", "notification"] }],
+};
+
+export const ESCALATING_ALERT_STEPS: AlertStep[] = [
+  { afterSec: 0, repeatSec: 4, volume: 0.1, channels: ["badge"] },
+  { afterSec: 3, repeatSec: 3, volume: 0.15, channels: ["sound", "badge", "notification"] },
+  { afterSec: 8, repeatSec: 2, volume: 0.5, channels: ["sound", "flash", "badge"] },
+  { afterSec: 15, repeatSec: 4, volume: 0.8, channels: ["sound", "flash", "badge", "speech"] },
+];
+
+const SETTINGS_KEY = "alertSettings";
+const MAX_TONE_GAIN = 0.3;
+// Custom sounds are kept in localStorage, which only holds a few MB.
+export const MAX_CUSTOM_SOUND_BYTES = 1024 * 1024;
+
+type ToneSpec = { type: OscillatorType; frequency: number; seconds: number; decay: boolean };
+
+const TONES: Record<Exclude<AlertTone, "custom">, ToneSpec> = {
+  beep: { type: "sine", frequency: 880, seconds: 0.18, decay: false },
+  soft: { type: "sine", frequency: 523, seconds: 0.35, decay: true },
+  chime: { type: "triangle", frequency: 1320, seconds: 0.6, decay: true },
+  buzzer: { type: "square", frequency: 220, seconds: 0.25, decay: false },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function num(value: unknown, path: string, min: number, max: number) {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`${path} must be a number between ${min} and ${max}.`);
+  }
+  return value;
+}
+
+export function parseAlertSettings(value: unknown): AlertSettings {
+  if (!isRecord(value)) throw new Error("Alert settings must be an object.");
+
+  const tone = ALERT_TONES.find((t) => t.id === value.tone)?.id;
+  if (!tone) throw new Error("tone is not a known tone.");
+  const customSound = typeof value.customSound === "string" ? value.customSound : null;
+  if (tone === "custom" && customSound === null) throw new Error("tone is custom but no sound file is set.");
+
+  if (!Array.isArray(value.steps) || value.steps.length === 0) throw new Error("steps must be a non-empty list.");
+  const steps = value.steps.map((s, i): AlertStep => {
+    const p = `steps[${i}]`;
+    if (!isRecord(s)) throw new Error(`${p} must be an object.`);
+    if (!Array.isArray(s.channels)) throw new Error(`${p}.channels must be a list.`);
+    const channels = s.channels.map((c, j) => {
+      const channel = ALERT_CHANNELS.find((a) => a.id === c)?.id;
+      if (!channel) throw new Error(`${p}.channels[${j}] is not a known channel.`);
+      return channel;
+    });
+    return {
+      afterSec: num(s.afterSec, `${p}.afterSec`, 0, 3600),
+      repeatSec: num(s.repeatSec, `${p}.repeatSec`, 0.5, 600),
+      volume: num(s.volume, `${p}.volume`, 0, 1),
+      channels,
+    };
+  });
+
+  return {
+    tone,
+    customSound,
+    customSoundName: typeof value.customSoundName === "string" ? value.customSoundName : null,
+    speechText: typeof value.speechText === "string" ? value.speechText : DEFAULT_ALERT_SETTINGS.speechText,
+    steps: steps.sort((a, b) => a.afterSec - b.afterSec),
+  };
+}
+
+export function loadAlertSettings(): AlertSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (raw) return parseAlertSettings(JSON.parse(raw));
+  } catch {}
+  return DEFAULT_ALERT_SETTINGS;
+}
+
+// Returns false when the settings could not be stored (usually a custom sound
+// too large for the remaining localStorage quota).
+export function saveAlertSettings(settings: AlertSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export type AlertController = {
+  // Begins an alert; `tick` then escalates and repeats it until `stop`.
+  start: (now: number, message: AlertMessage) => void;
+  // Returns the active level index, or -1 when no alert is running.
+  tick: (now: number) => number;
+  stop: () => void;
+  // One-off cue through the first level that does more than badge the tab
+  // (used for break reminders).
+  cue: (message: AlertMessage) => void;
+  // Fires one level once, for previewing settings.
+  preview: (level: number) => void;
+  dispose: () => void;
+};
+
+// `notify` is supplied by the page so notification permission and cooldown
+// stay in one place.
+export function createAlertController(
+  settings: AlertSettings,
+  notify: (title: string, body: string) => void,
+): AlertController {
+  const steps = [...settings.steps].sort((a, b) => a.afterSec - b.afterSec);
+
+  let audioCtx: AudioContext | null = null;
+  let audioEl: HTMLAudioElement | null = null;
+  let startedAt: number | null = null;
+  let message: AlertMessage | null = null;
+  let level = -1;
+  let lastFiredAt: number | null = null;
+  let savedTitle: string | null = null;
+  let savedIcon: { link: HTMLLinkElement; href: string | null; added: boolean } | null = null;
+
+  function playTone(volume: number) {
+    if (settings.tone === "custom" && settings.customSound) {
+      if (!audioEl) audioEl = new Audio(settings.customSound);
+      audioEl.volume = volume;
+      audioEl.currentTime = 0;
+      audioEl.play().catch(() => {});
+      return;
+    }
+
+    const AudioCtx = window.AudioContext || window.webkitAudioContext;
+    if (!AudioCtx) return;
+
+    if (!audioCtx) audioCtx = new AudioCtx();
+    const ctx = audioCtx;
+    if (ctx.state === "suspended") ctx.resume().catch(() => {});
+
+    const tone = TONES[settings.tone === "custom" ? "beep" : settings.tone];
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.type = tone.type;
+    osc.frequency.value = tone.frequency;
+
+    const t0 = ctx.currentTime;
+    gain.gain.setValueAtTime(volume * MAX_TONE_GAIN, t0);
+    if (tone.decay) gain.gain.exponentialRampToValueAtTime(0.0001, t0 + tone.seconds);
+
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+    osc.start(t0);
+    osc.stop(t0 + tone.seconds);
+
+    osc.onended = () => {
+      try {
+        osc.disconnect();
+        gain.disconnect();
+      } catch {}
+    };
+  }
+
+  function flash() {
+    const el = document.createElement("div");
+    Object.assign(el.style, {
+      position: "fixed",
+      inset: "0",
+      background: "#ff4d4d",
+      opacity: "0.55",
+      zIndex: "10000",
+      pointerEvents: "none",
+      transition: "opacity 400ms ease-out",
+    });
+    document.body.appendChild(el);
+    requestAnimationFrame(() => requestAnimationFrame(() => (el.style.opacity = "0")));
+    setTimeout(() => el.remove(), 500);
+  }
+
+  function speak(text: string, volume: number) {
+    if (!("speechSynthesis" in window) || text.trim() === "") return;
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.volume = volume;
+    window.speechSynthesis.speak(utterance);
+  }
+
+  function badgeIcon() {
+    const canvas = document.createElement("canvas");
+    canvas.width = 32;
+    canvas.height = 32;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.fillStyle = "#ff4d4d";
+    ctx.beginPath();
+    ctx.arc(16, 16, 14, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = "#fff";
+    ctx.font = "bold 22px sans-serif";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText("!", 16, 17);
+    return canvas.toDataURL("image/png");
+  }
+
+  function setBadge(on: boolean) {
+    if (on && savedTitle === null) {
+      savedTitle = document.title;
+      document.title = `(!) ${savedTitle}`;
+
+      const icon = badgeIcon();
+      if (icon) {
+        let link = document.querySelector<HTMLLinkElement>("link[rel~='icon']");
+        const added = link === null;
+        if (!link) {
+          link = document.createElement("link");
+          link.rel = "icon";
+          document.head.appendChild(link);
+        }
+        savedIcon = { link, href: link.getAttribute("href"), added };
+        link.href = icon;
+      }
+    } else if (!on && savedTitle !== null) {
+      document.title = savedTitle;
+      savedTitle = null;
+
+      if (savedIcon) {
+        if (savedIcon.added) savedIcon.link.remove();
+        else if (savedIcon.href !== null) savedIcon.link.setAttribute("href", savedIcon.href);
+        savedIcon = null;
+      }
+    }
+  }
+
+  // Channels that repeat while a level is active; notification and badge are
+  // handled once when the level is entered.
+  function fireRepeating(step: AlertStep, msg: AlertMessage) {
+    if (step.channels.includes("sound")) playTone(step.volume);
+    if (step.channels.includes("flash")) flash();
+    if (step.channels.includes("speech")) speak(msg.speech, step.volume);
+  }
+
+  function tick(now: number) {
+    if (startedAt === null || message === null || steps.length === 0) return -1;
+
+    const elapsedSec = (now - startedAt) / 1000;
+    let next = 0;
+    steps.forEach((s, i) => {
+      if (elapsedSec >= s.afterSec) next = i;
+    });
+
+    const step = steps[next];
+    if (next !== level) {
+      level = next;
+      lastFiredAt = null;
+      if (step.channels.includes("notification")) notify(message.title, message.body);
+      setBadge(step.channels.includes("badge"));
+    }
+
+    if (lastFiredAt === null || now - lastFiredAt >= step.repeatSec * 1000) {
+      lastFiredAt = now;
+      fireRepeating(step, message);
+    }
+    return level;
+  }
+
+  function start(now: number, msg: AlertMessage) {
+    startedAt = now;
+    message = msg;
+    level = -1;
+    lastFiredAt = null;
+    tick(now);
+  }
+
+  function stop() {
+    startedAt = null;
+    message = null;
+    level = -1;
+    setBadge(false);
+  }
+
+  function cue(msg: AlertMessage) {
+    const step = steps.find((s) => s.channels.some((c) => c !== "badge"));
+    if (!step) return;
+    fireRepeating(step, msg);
+    if (step.channels.includes("notification")) notify(msg.title, msg.body);
+  }
+
+  function preview(index: number) {
+    const step = steps[index];
+    if (!step) return;
+    const msg = { title: "Blink reminder", body: "This is a test alert.", speech: settings.speechText };
+    fireRepeating(step, msg);
+    if (step.channels.includes("notification")) notify(msg.title, msg.body);
+  }
+
+  function dispose() {
+    stop();
+    if ("speechSynthesis" in window) window.speechSynthesis.cancel();
+    if (audioEl) {
+      audioEl.pause();
+      audioEl = null;
+    }
+    if (audioCtx) {
+      audioCtx.close().catch(() => {});
+      audioCtx = null;
+    }
+  }
+
+  return { start, tick, stop, cue, preview, dispose };
+}
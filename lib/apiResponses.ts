@@ -0,0 +1,66 @@
+// Shared pieces of the /api route handlers: JSON responses, CORS for apps
+// served from other machines, and the optional shared token.
+
+const CORS_METHODS = "GET, POST, DELETE, OPTIONS";
+const CORS_ALLOWED_HEADERS = "Content-Type, Authorization";
+
+// Origins listed in BLINK_API_ORIGINS (comma-separated, e.g.
+// `http://lab-pc-1:3000`) may call the API from the browser; pages on any
+// other site are refused, so they cannot read or delete sessions.
+function allowedOrigins() {
+  return (process.env.BLINK_API_ORIGINS ?? "")
+    .split(",")
+    .map((o) => o.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+}
+
+// The Origin of a browser request from another site, or null for same-origin
+// and non-browser requests (which send no Origin header).
+function foreignOrigin(request: Request) {
+  const origin = request.headers.get("origin");
+  if (!origin) return null;
+  try {
+    return new URL(origin).host === request.headers.get("host") ? null : origin;
+  } catch {
+    return origin;
+  }
+}
+
+function corsHeaders(request: Request): Record<string, string> {
+  const origin = foreignOrigin(request);
+  if (!origin || !allowedOrigins().includes(origin)) return { Vary: "Origin" };
+  return {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Allow-Methods": CORS_METHODS,
+    "Access-Control-Allow-Headers": CORS_ALLOWED_HEADERS,
+    Vary: "Origin",
+  };
+}
+
+export function jsonResponse(request: Request, body: unknown, status = 200) {
+  return Response.json(body, { status, headers: corsHeaders(request) });
+}
+
+export function errorResponse(request: Request, message: string, status: number) {
+  return jsonResponse(request, { error: message }, status);
+}
+
+export function optionsResponse(request: Request) {
+  return new Response(null, { status: 204, headers: corsHeaders(request) });
+}
+
+// Refuses browser requests from origins missing from BLINK_API_ORIGINS, and,
+// when BLINK_API_TOKEN is set, requests without `Authorization: Bearer <token>`.
+// Returns an error response to send back, or null when the request may proceed.
+export function checkApiAccess(request: Request) {
+  const origin = foreignOrigin(request);
+  if (origin && !allowedOrigins().includes(origin)) {
+    return errorResponse(request, `Origin ${origin} is not allowed; add it to BLINK_API_ORIGINS.`, 403);
+  }
+
+  const token = process.env.BLINK_API_TOKEN;
+  if (!token) return null;
+  return request.headers.get("authorization") === `Bearer ${token}`
+    ? null
+    : errorResponse(request, "Missing or wrong API token.", 401);
+}
@@ -0,0 +1,515 @@
+import { describe, expect, it } from "vitest";
+import { createBlinkEngine, type BlinkEngineConfig, type BlinkEngineEvent } from "./blinkEngine";
+import type { CalibrationResult } from "./calibration";
+import type { HeadPose } from "./headPose";
+
+// Synthetic EAR traces at ~30 fps. Both eyes sit at OPEN_EAR, so the passive
+// calibration settles on that baseline after its first 3 s.
+const OPEN_EAR = 0.3;
+const CLOSED_EAR = 0.05;
+const FRAME_MS = 33;
+
+type Eyes = [left: number, right: number];
+
+// A stretch of the trace where the eyes have the given EAR (and the head the
+// given pose), or where no face is found (null); outside every stretch both
+// eyes are open and no pose is known.
+type Stretch = { fromMs: number; toMs: number; eyes: Eyes | null; pose?: HeadPose };
+
+type Trace = {
+  durationMs: number;
+  stretches?: Stretch[];
+  // No frames arrive in these time ranges (a frozen tab or stalled camera).
+  gaps?: { fromMs: number; toMs: number }[];
+  frameMs?: number;
+  config?: Partial<BlinkEngineConfig>;
+};
+
+function replay({ durationMs, stretches = [], gaps = [], frameMs = FRAME_MS, config = {} }: Trace) {
+  const engine = createBlinkEngine({ noBlinkThresholdSec: 60, ...config }, 0);
+  const events: BlinkEngineEvent[] = [];
+
+  for (let t = 0; t <= durationMs; t += frameMs) {
+    if (gaps.some((g) => t > g.fromMs && t < g.toMs)) continue;
+    const stretch = stretches.find((s) => t >= s.fromMs && t < s.toMs);
+    if (stretch?.eyes === null) {
+      events.push(...engine.processFrame({ t, left: null, right: null }));
+      continue;
+    }
+    const [left, right] = stretch?.eyes ?? [OPEN_EAR, OPEN_EAR];
+    events.push(...engine.processFrame({ t, left, right, pose: stretch?.pose }));
+  }
+
+  const last = engine.snapshot(durationMs);
+  const { summary, timeline } = engine.finish(durationMs);
+  const ofType = <T extends BlinkEngineEvent["type"]>(type: T) =>
+    events.filter((e): e is Extract<BlinkEngineEvent, { type: T }> => e.type === type);
+  return { events, ofType, last, summary, timeline };
+}
+
+// First frame at or after `ms`.
+const frameAt = (ms: number) => Math.ceil(ms / FRAME_MS) * FRAME_MS;
+
+const closed = (fromMs: number, toMs: number, eyes: Eyes = [CLOSED_EAR, CLOSED_EAR]): Stretch => ({
+  fromMs,
+  toMs,
+  eyes,
+});
+
+describe("createBlinkEngine", () => {
+  it("calibrates the baseline from the open-eye frames", () => {
+    const { ofType, summary } = replay({ durationMs: 5000 });
+
+    expect(ofType("calibrated")).toHaveLength(1);
+    expect(ofType("calibrated")[0].baselineEar).toBeCloseTo(OPEN_EAR);
+    expect(summary.totalBlinks).toBe(0);
+  });
+
+  it("counts a normal blink in both eyes", () => {
+    const { ofType, summary } = replay({ durationMs: 6000, stretches: [closed(4000, 4150)] });
+
+    const blinks = ofType("blink");
+    expect(blinks).toHaveLength(1);
+    expect(blinks[0].blink.startMs).toBeGreaterThanOrEqual(4000);
+    expect(blinks[0].blink.endMs).toBeGreaterThanOrEqual(4150);
+    expect(blinks[0].blink.minEar).toBeCloseTo(CLOSED_EAR);
+    expect(blinks[0].blink.closedMs).toBeGreaterThan(0);
+
+    expect(summary.totalBlinks).toBe(1);
+    expect(summary.blinkEvents).toEqual([blinks[0].blink]);
+    expect(summary.leftEyeBlinks).toBe(1);
+    expect(summary.rightEyeBlinks).toBe(1);
+    expect(summary.incompleteBlinks).toBe(0);
+    expect(summary.winks).toBe(0);
+  });
+
+  it("ignores a closure shorter than minClosedMs", () => {
+    // A single closed frame is credited for half an interval on each side: 33 ms.
+    const { ofType, summary } = replay({ durationMs: 6000, stretches: [closed(4000, 4000 + FRAME_MS)] });
+
+    expect(ofType("blink")).toHaveLength(0);
+    expect(summary.totalBlinks).toBe(0);
+    expect(summary.blinkEvents).toEqual([]);
+    expect(summary.leftEyeBlinks).toBe(0);
+  });
+
+  it("reports a partial dip as an incomplete blink", () => {
+    // Below the partial threshold (0.75 x baseline) but above the close threshold (0.62 x).
+    const { ofType, summary } = replay({ durationMs: 6000, stretches: [closed(4000, 4150, [0.21, 0.21])] });
+
+    expect(ofType("incompleteBlink")).toHaveLength(1);
+    expect(summary.incompleteBlinks).toBe(1);
+    expect(summary.totalBlinks).toBe(0);
+  });
+
+  it("reports one eye closing on its own as a wink, not a blink", () => {
+    const { ofType, summary } = replay({ durationMs: 6000, stretches: [closed(4000, 4150, [CLOSED_EAR, OPEN_EAR])] });
+
+    const closures = ofType("unilateralClosure");
+    expect(closures).toHaveLength(1);
+    expect(closures[0].closure).toMatchObject({ eye: "left", kind: "wink" });
+
+    expect(ofType("blink")).toHaveLength(0);
+    expect(ofType("incompleteBlink")).toHaveLength(0);
+    expect(summary.totalBlinks).toBe(0);
+    expect(summary.blinkEvents).toEqual([]);
+    expect(summary.winks).toBe(1);
+    expect(summary.leftEyeBlinks).toBe(1);
+    expect(summary.rightEyeBlinks).toBe(0);
+  });
+
+  it("reports a long one-eye closure separately from winks", () => {
+    const { summary } = replay({ durationMs: 8000, stretches: [closed(4000, 5500, [OPEN_EAR, CLOSED_EAR])] });
+
+    expect(summary.totalBlinks).toBe(0);
+    expect(summary.winks).toBe(0);
+    expect(summary.oneEyeClosures).toBe(1);
+    expect(summary.unilateralClosures[0].eye).toBe("right");
+  });
+
+  it("counts a frame stall as hidden time", () => {
+    const { ofType, summary, timeline } = replay({ durationMs: 10000, gaps: [{ fromMs: 5000, toMs: 8000 }] });
+
+    const lastBefore = Math.floor(5000 / FRAME_MS) * FRAME_MS;
+    const firstAfter = Math.ceil(8000 / FRAME_MS) * FRAME_MS;
+
+    expect(ofType("faceLost")).toEqual([{ type: "faceLost", t: lastBefore, reason: "noFace" }]);
+    expect(ofType("faceFound").map((e) => e.t)).toContain(firstAfter);
+    expect(summary.totalHiddenTimeMs).toBe(firstAfter - lastBefore);
+    expect(summary.totalVisibleTimeMs + summary.totalHiddenTimeMs).toBe(10000);
+    expect(timeline.faceSegments).toContainEqual({ startMs: lastBefore, endMs: firstAfter, visible: false });
+  });
+
+  it("starts an alert after noBlinkThresholdSec without a blink and ends it at the next blink", () => {
+    const { ofType, summary, timeline } = replay({
+      durationMs: 14000,
+      stretches: [closed(4000, 4150), closed(12000, 12150)],
+      config: { noBlinkThresholdSec: 5 },
+    });
+
+    const [first, second] = ofType("blink");
+    const starts = ofType("alertStart");
+    const ends = ofType("alertEnd");
+
+    expect(starts).toHaveLength(1);
+    expect(starts[0].t - first.t).toBeGreaterThanOrEqual(5000);
+    expect(starts[0].t - first.t).toBeLessThan(5000 + FRAME_MS);
+    expect(ends).toEqual([{ type: "alertEnd", t: second.t }]);
+
+    expect(summary.totalAlerts).toBe(1);
+    expect(timeline.alertPeriods).toEqual([{ startMs: starts[0].t, endMs: second.t }]);
+  });
+
+  it("does not alert while blinks come sooner than noBlinkThresholdSec", () => {
+    const { ofType, summary } = replay({
+      durationMs: 14000,
+      stretches: [closed(4000, 4150), closed(8000, 8150), closed(12000, 12150)],
+      config: { noBlinkThresholdSec: 5 },
+    });
+
+    expect(ofType("blink")).toHaveLength(3);
+    expect(ofType("alertStart")).toHaveLength(0);
+    expect(summary.totalAlerts).toBe(0);
+  });
+
+  it("starts a cue before the alert and ends both at the next blink", () => {
+    const { ofType, summary, timeline } = replay({
+      durationMs: 14000,
+      stretches: [closed(4000, 4150), closed(12000, 12150)],
+      config: { noBlinkThresholdSec: 5, cues: true },
+    });
+
+    const [first, second] = ofType("blink");
+    const cueStarts = ofType("cueStart");
+    expect(cueStarts).toHaveLength(1);
+    expect(cueStarts[0].t - first.t).toBeGreaterThanOrEqual(3000);
+    expect(cueStarts[0].t - first.t).toBeLessThan(3000 + FRAME_MS);
+    expect(ofType("alertStart")[0].t).toBeGreaterThan(cueStarts[0].t);
+    expect(ofType("cueEnd")).toEqual([{ type: "cueEnd", t: second.t, reachedThreshold: true }]);
+
+    expect(summary.totalCues).toBe(1);
+    expect(summary.cuesClearedBeforeAlert).toBe(0);
+    expect(summary.totalAlerts).toBe(1);
+    expect(timeline.cuePeriods).toEqual([{ startMs: cueStarts[0].t, endMs: second.t, reachedThreshold: true }]);
+  });
+
+  it("records a cue cleared by a blink before the threshold", () => {
+    const { ofType, summary } = replay({
+      durationMs: 10000,
+      stretches: [closed(4000, 4150), closed(8000, 8150)],
+      config: { noBlinkThresholdSec: 5, cues: true },
+    });
+
+    expect(ofType("cueEnd")).toEqual([{ type: "cueEnd", t: ofType("blink")[1].t, reachedThreshold: false }]);
+    expect(summary.cuesClearedBeforeAlert).toBe(1);
+    expect(summary.totalAlerts).toBe(0);
+  });
+
+  it("raises no alerts in cues-only mode but still counts the time past the threshold", () => {
+    const { ofType, summary, timeline } = replay({
+      durationMs: 14000,
+      stretches: [closed(4000, 4150), closed(12000, 12150)],
+      config: { noBlinkThresholdSec: 5, cues: true, alarm: false },
+    });
+
+    expect(ofType("cueStart")).toHaveLength(1);
+    expect(ofType("cueEnd")[0].reachedThreshold).toBe(true);
+    expect(ofType("alertStart")).toHaveLength(0);
+    expect(ofType("alertEnd")).toHaveLength(0);
+    expect(summary.totalAlerts).toBe(0);
+    expect(timeline.alertPeriods).toEqual([]);
+    expect(summary.blinkCompliancePercent).toBeLessThan(100);
+  });
+});
+
+describe("adaptive baseline", () => {
+  it("follows the open-eye level when it rises", () => {
+    const { last, summary } = replay({ durationMs: 40000, stretches: [closed(4000, 40000, [0.36, 0.36])] });
+
+    expect(last.calibratedBaselineEar).toBeCloseTo(OPEN_EAR);
+    expect(last.baselineEar).toBeGreaterThan(0.35);
+    expect(summary.finalBaselineEar).toBe(last.baselineEar);
+    expect(summary.baselineDriftPercent).toBeGreaterThan(15);
+  });
+
+  it("scales the blink thresholds with the new level", () => {
+    // Leaning in: the eyes now read 0.4, and closing to 0.2 is a real blink,
+    // though it stays above the calibrated close threshold (0.186).
+    const blinks = [20000, 25000, 30000, 35000].map((t) => closed(t, t + 150, [0.2, 0.2]));
+    const trace = (config: Partial<BlinkEngineConfig>) =>
+      replay({ durationMs: 40000, stretches: [...blinks, closed(4000, 40000, [0.4, 0.4])], config });
+
+    const fixed = trace({ adaptiveBaseline: false }).summary;
+    expect(fixed.totalBlinks).toBe(0);
+    expect(fixed.incompleteBlinks).toBe(4);
+
+    const adaptive = trace({}).summary;
+    expect(adaptive.totalBlinks).toBe(4);
+    expect(adaptive.incompleteBlinks).toBe(0);
+  });
+
+  it("does not lower the baseline during a long stare", () => {
+    const { last, summary } = replay({
+      durationMs: 40000,
+      stretches: [closed(4000, 4150), closed(10000, 40000, [0.25, 0.25])],
+    });
+
+    expect(summary.totalBlinks).toBe(1);
+    expect(last.baselineEar).toBeCloseTo(OPEN_EAR, 2);
+    expect(summary.maxBaselineDriftPercent).toBeGreaterThan(-1);
+  });
+
+  it("stays within adaptMaxRatio of the calibrated baseline", () => {
+    const { last, summary } = replay({ durationMs: 60000, stretches: [closed(4000, 60000, [0.6, 0.6])] });
+
+    expect(last.baselineEar).toBeCloseTo(OPEN_EAR * 1.35);
+    expect(summary.maxBaselineDriftPercent).toBeCloseTo(35);
+  });
+
+  it("keeps the calibrated baseline when adaptation is off", () => {
+    const { last, summary } = replay({
+      durationMs: 40000,
+      stretches: [closed(4000, 40000, [0.36, 0.36])],
+      config: { adaptiveBaseline: false },
+    });
+
+    expect(last.baselineEar).toBeCloseTo(OPEN_EAR);
+    expect(summary.baselineDriftPercent).toBeCloseTo(0);
+  });
+});
+
+describe("head pose", () => {
+  const turned = (yawDeg: number, pitchDeg = 0): HeadPose => ({ yawDeg, pitchDeg, rollDeg: 0 });
+  // What the eyes read at this pose when their true EAR is OPEN_EAR: turning
+  // narrows the eye, tilting shortens it.
+  const seenAt = (pose: HeadPose): Eyes => {
+    const ear = (OPEN_EAR * Math.cos((pose.pitchDeg * Math.PI) / 180)) / Math.cos((pose.yawDeg * Math.PI) / 180);
+    return [ear, ear];
+  };
+
+  it("corrects the EAR for a turned head", () => {
+    const pose = turned(25, 15);
+    const { summary, timeline } = replay({
+      durationMs: 10000,
+      stretches: [{ fromMs: 4000, toMs: 10000, eyes: seenAt(pose), pose }],
+    });
+
+    const sample = timeline.earSamples.find((s) => s.t >= 5000);
+    expect(sample?.left).toBeCloseTo(OPEN_EAR);
+    expect(summary.totalHiddenTimeMs).toBe(0);
+    expect(summary.offPoseTimeMs).toBe(0);
+  });
+
+  it("treats a head turned past maxYawDeg as a lost face", () => {
+    const pose = turned(45);
+    const { ofType, summary } = replay({
+      durationMs: 10000,
+      // The blink while turned away is not counted.
+      stretches: [
+        { fromMs: 6000, toMs: 6150, eyes: [CLOSED_EAR, CLOSED_EAR], pose },
+        { fromMs: 5000, toMs: 8000, eyes: seenAt(pose), pose },
+      ],
+    });
+
+    const [lost] = ofType("faceLost");
+    expect(lost.reason).toBe("headPose");
+    expect(lost.t - 5000).toBeGreaterThanOrEqual(300);
+    expect(ofType("faceFound").at(-1)?.t).toBeGreaterThanOrEqual(8000);
+    expect(ofType("blink")).toHaveLength(0);
+    expect(summary.totalHiddenTimeMs).toBeGreaterThan(2500);
+    expect(summary.offPoseTimeMs).toBeGreaterThan(2500);
+    expect(summary.offPoseTimeMs).toBeLessThanOrEqual(summary.totalHiddenTimeMs);
+  });
+
+  it("applies the pitch limit only with pose compensation on", () => {
+    const pose = turned(0, 35);
+    const stretches = [{ fromMs: 5000, toMs: 8000, eyes: seenAt(pose), pose }];
+
+    expect(replay({ durationMs: 10000, stretches }).summary.offPoseTimeMs).toBeGreaterThan(2500);
+    const { summary } = replay({ durationMs: 10000, stretches, config: { poseCompensation: false } });
+    expect(summary.totalHiddenTimeMs).toBe(0);
+    expect(summary.offPoseTimeMs).toBe(0);
+  });
+});
+
+describe("blink phases", () => {
+  const HALF: Eyes = [0.21, 0.21];
+
+  // Half-closed while closing and reopening, fully closed in between.
+  const phasedBlink = (at: number, closedForMs: number) => [
+    closed(at, at + 100, HALF),
+    closed(at + 100, at + 100 + closedForMs),
+    closed(at + 100 + closedForMs, at + 200 + closedForMs, HALF),
+  ];
+
+  it("splits a blink into closing, closed and reopening time", () => {
+    const { ofType } = replay({ durationMs: 6000, stretches: phasedBlink(4000, 150) });
+
+    const [{ blink }] = ofType("blink");
+    const onset = frameAt(4000) - FRAME_MS;
+    const start = frameAt(4100);
+    const lastClosed = frameAt(4250) - FRAME_MS;
+    const end = frameAt(4350);
+
+    expect(blink.startMs).toBe(start);
+    expect(blink.endMs).toBe(end);
+    expect(blink.closingMs).toBe(start - onset);
+    expect(blink.closedMs).toBe(lastClosed - start);
+    expect(blink.reopeningMs).toBe(end - lastClosed);
+    expect(blink.closureDepth).toBeCloseTo(1 - CLOSED_EAR / OPEN_EAR);
+    expect(blink.asymmetry).toBeCloseTo(0);
+  });
+
+  it("summarizes blink durations and the share of slow blinks", () => {
+    const { ofType, summary } = replay({
+      durationMs: 10000,
+      stretches: [...phasedBlink(4000, 150), ...phasedBlink(7000, 600)],
+    });
+
+    const durations = ofType("blink").map(({ blink }) => blink.closingMs + blink.closedMs + blink.reopeningMs);
+    expect(durations[0]).toBeLessThan(500);
+    expect(durations[1]).toBeGreaterThan(500);
+
+    expect(summary.meanBlinkDurationMs).toBeCloseTo((durations[0] + durations[1]) / 2);
+    expect(summary.p90BlinkDurationMs).toBeGreaterThan(summary.medianBlinkDurationMs ?? Infinity);
+    expect(summary.slowBlinkFraction).toBe(0.5);
+    expect(summary.meanClosedMs).toBeGreaterThan(summary.meanClosingMs ?? Infinity);
+  });
+});
+
+describe("break reminders", () => {
+  const config = { breakIntervalMs: 10000, breakDurationMs: 3000, breakMissAfterMs: 5000 };
+  const away = (fromMs: number, toMs: number): Stretch => ({ fromMs, toMs, eyes: null });
+
+  it("is due after breakIntervalMs of visible time and taken by looking away", () => {
+    const { ofType, summary } = replay({ durationMs: 20000, stretches: [away(12000, 17000)], config });
+
+    const [due] = ofType("breakDue");
+    expect(due.t).toBe(frameAt(10000));
+    const [{ reminder }] = ofType("breakEnd");
+    expect(reminder.taken).toBe(true);
+    // The face counts as lost after faceLostDebounceMs, the break after breakDurationMs more.
+    expect(reminder.endMs - 12000).toBeGreaterThanOrEqual(3300);
+    expect(reminder.endMs - 12000).toBeLessThan(3300 + 2 * FRAME_MS);
+
+    expect(summary.breakReminders).toEqual([reminder]);
+    expect(summary.breaksTaken).toBe(1);
+    expect(summary.breaksMissed).toBe(0);
+    expect(summary.breakCompliancePercent).toBe(100);
+  });
+
+  it("is missed after breakMissAfterMs more of visible time", () => {
+    const { ofType, summary } = replay({ durationMs: 20000, config });
+
+    const [due] = ofType("breakDue");
+    const [{ reminder }] = ofType("breakEnd");
+    expect(reminder).toEqual({ dueMs: due.t, endMs: frameAt(due.t + 5000), taken: false });
+    expect(summary.breaksMissed).toBe(1);
+    expect(summary.breakCompliancePercent).toBe(0);
+  });
+
+  it("counts a look-away before the reminder as a self-initiated break and restarts the interval", () => {
+    const { ofType, summary } = replay({ durationMs: 20000, stretches: [away(5000, 9000)], config });
+
+    expect(summary.selfInitiatedBreaks).toBe(1);
+    // About 5.3 s were visible before the break, so the next one is due 10 s after coming back.
+    const [due] = ofType("breakDue");
+    expect(due.t).toBeGreaterThanOrEqual(19000);
+    expect(summary.breakReminders).toEqual([]);
+  });
+
+  it("does not count a short look-away as a break", () => {
+    const { ofType } = replay({ durationMs: 14000, stretches: [away(11000, 12500)], config });
+
+    expect(ofType("breakDue")).toHaveLength(1);
+    expect(ofType("breakEnd")).toHaveLength(0);
+  });
+
+  it("stays quiet when reminders are off", () => {
+    const { ofType, summary } = replay({ durationMs: 20000, config: { ...config, breakReminders: false } });
+
+    expect(ofType("breakDue")).toHaveLength(0);
+    expect(summary.breakCompliancePercent).toBeNull();
+  });
+});
+
+describe("guided calibration", () => {
+  const calibration: CalibrationResult = {
+    openEar: 0.32,
+    leftOpenEar: 0.32,
+    rightOpenEar: 0.32,
+    closedEar: 0.1,
+    closeRatio: 0.7,
+    openRatio: 0.85,
+    partialRatio: 0.78,
+    quality: 88,
+    reliable: true,
+    issues: [],
+    faceCoverage: 1,
+    openVariation: 0.03,
+    blinksDetected: 3,
+    contrast: 0.69,
+  };
+
+  it("skips the passive calibration window", () => {
+    const { ofType, last, summary } = replay({ durationMs: 2000, config: { calibration } });
+
+    expect(ofType("calibrated")).toEqual([{ type: "calibrated", t: 0, baselineEar: 0.32 }]);
+    expect(last.calibrating).toBe(false);
+    expect(last.calibratedBaselineEar).toBe(0.32);
+    expect(summary.calibrationQuality).toBe(88);
+  });
+
+  it("detects blinks with the calibrated thresholds", () => {
+    // 0.2 is below the calibrated close threshold (0.7 x 0.32) but above the default one (0.62 x 0.3).
+    const stretches = [closed(1000, 1150, [0.2, 0.2])];
+
+    expect(replay({ durationMs: 3000, stretches, config: { calibration } }).summary.totalBlinks).toBe(1);
+    const passive = replay({ durationMs: 6000, stretches: [closed(4000, 4150, [0.2, 0.2])] }).summary;
+    expect(passive.totalBlinks).toBe(0);
+    expect(passive.calibrationQuality).toBeNull();
+  });
+});
+
+describe("frame rate", () => {
+  it("counts a blink seen in a single frame at a low frame rate", () => {
+    // At 10 fps the one closed frame is credited with 100 ms, above minClosedMs.
+    const { summary } = replay({ durationMs: 6000, frameMs: 100, stretches: [closed(4000, 4100)] });
+
+    expect(summary.totalBlinks).toBe(1);
+    expect(summary.blinkEvents[0].closedFrames).toBe(1);
+  });
+
+  it("credits long frame intervals only up to maxCreditedIntervalMs", () => {
+    const trace = (maxCreditedIntervalMs: number) =>
+      replay({
+        durationMs: 8000,
+        frameMs: 250,
+        stretches: [closed(5000, 5250)],
+        config: { minClosedMs: 240, maxCreditedIntervalMs },
+      }).summary.totalBlinks;
+
+    expect(trace(200)).toBe(0);
+    expect(trace(300)).toBe(1);
+  });
+
+  it("measures the processing rate and counts dropped frames", () => {
+    const { last, summary } = replay({ durationMs: 10000, frameMs: 100 });
+
+    expect(last.fps).toBeCloseTo(10);
+    expect(last.lowFps).toBe(true);
+    expect(summary.averageFps).toBeCloseTo(10);
+    // The 30 fps source delivered two more frames in every 100 ms interval.
+    expect(summary.droppedFrames).toBe(2 * (summary.processedFrames - 1));
+    expect(summary.lowFpsTimeMs).toBeGreaterThan(5000);
+  });
+
+  it("reports no low-rate time at the source frame rate", () => {
+    const { last, summary } = replay({ durationMs: 10000 });
+
+    expect(last.fps).toBeCloseTo(1000 / FRAME_MS);
+    expect(last.lowFps).toBe(false);
+    expect(summary.droppedFrames).toBe(0);
+    expect(summary.lowFpsTimeMs).toBe(0);
+  });
+});
@@ -0,0 +1,956 @@
+import type { CalibrationResult } from "./calibration";
+import { eyeAspectRatios, type Point } from "./eyeGeometry";
+import { DEFAULT_GRADING_PROFILE, gradeSession, type GradingProfile } from "./grading";
+import { compensateEar, estimateHeadPose, isPoseWithinLimits, type HeadPose } from "./headPose";
+import {
+  blinkDurationMs,
+  type AlertPeriod,
+  type BlinkEvent,
+  type BreakReminder,
+  type CuePeriod,
+  type EarSample,
+  type FaceSegment,
+  type SessionSummary,
+  type SessionTimeline,
+  type UnilateralClosure,
+} from "./session";
+import { mean, percentile, stdDev } from "./stats";
+
+// Framework-free blink detection: feed it timestamped frames (landmarks or
+// precomputed per-eye EAR) and it emits typed events and builds the session
+// summary. Timestamps are in milliseconds on any monotonic clock
+// (performance.now() live, recorded times on replay).
+
+export type BlinkEngineConfig = {
+  noBlinkThresholdSec: number;
+  calibrationMs: number;
+  // Result of the guided calibration. When set, the passive calibration window
+  // is skipped and its baseline and close/open/partial ratios are used instead.
+  calibration: CalibrationResult | null;
+  closeRatio: number;
+  openRatio: number;
+  partialRatio: number;
+  // Detection criteria are durations, not frame counts: each frame's eye state
+  // is credited for half the interval to either neighbour, so a closure seen in
+  // a single frame still counts when frames are sparse. Intervals longer than
+  // `maxCreditedIntervalMs` are only credited up to that length, since the eye
+  // state in between was not observed.
+  minClosedMs: number;
+  minPartialMs: number;
+  maxCreditedIntervalMs: number;
+  minBlinkGapMs: number;
+  // One-eye closures up to this long are reported as winks.
+  winkMaxMs: number;
+  // Blinks whose full duration (closing + closed + reopening) exceeds this are "slow".
+  slowBlinkMs: number;
+  faceLostDebounceMs: number;
+  frameStallMs: number;
+  // Frame rate the video source delivers; intervals longer than its frame time
+  // count the frames in between as dropped. Below `minReliableFps` processed
+  // frames per second, short blinks can fall between frames.
+  sourceFps: number;
+  minReliableFps: number;
+  // Frames whose head pose exceeds these limits count as "face not usable"
+  // (hidden time); the rest have their EAR corrected for foreshortening.
+  poseCompensation: boolean;
+  maxYawDeg: number;
+  maxPitchDeg: number;
+  // Adaptive baseline: after calibration the open-eye baseline follows the
+  // median of recent clearly-open frames. It rises faster than it falls, stops
+  // falling during long stares, and stays within a band around the calibration.
+  adaptiveBaseline: boolean;
+  adaptWindowMs: number;
+  adaptSettleMs: number;
+  adaptRiseTauMs: number;
+  adaptFallTauMs: number;
+  adaptFreezeAfterMs: number;
+  adaptMinRatio: number;
+  adaptMaxRatio: number;
+  // Whether passing the no-blink threshold raises an alert. Without the alarm
+  // (cues-only mode) no alerts are recorded or graded; risky time still counts.
+  alarm: boolean;
+  // Gentle cues start at this fraction of the no-blink threshold and ramp up
+  // until a blink; they are tracked apart from alerts.
+  cues: boolean;
+  cueStartRatio: number;
+  // 20-20-20 break reminders: a break is due after `breakIntervalMs` of visible
+  // screen time. It counts as taken once the face has been away (missing or
+  // turned past the pose limits) for `breakDurationMs`, and as missed after a
+  // further `breakMissAfterMs` of visible time. Look-aways that long also
+  // restart the interval when no reminder is due.
+  breakReminders: boolean;
+  breakIntervalMs: number;
+  breakDurationMs: number;
+  breakMissAfterMs: number;
+  gradingProfile: GradingProfile;
+};
+
+export const DEFAULT_ENGINE_CONFIG: Omit<BlinkEngineConfig, "noBlinkThresholdSec"> = {
+  calibrationMs: 3000,
+  calibration: null,
+  closeRatio: 0.62,
+  openRatio: 0.82,
+  partialRatio: 0.75,
+  minClosedMs: 50,
+  minPartialMs: 50,
+  maxCreditedIntervalMs: 200,
+  minBlinkGapMs: 350,
+  winkMaxMs: 1000,
+  slowBlinkMs: 500,
+  faceLostDebounceMs: 300,
+  frameStallMs: 1500,
+  sourceFps: 30,
+  minReliableFps: 15,
+  poseCompensation: true,
+  maxYawDeg: 30,
+  maxPitchDeg: 25,
+  adaptiveBaseline: true,
+  adaptWindowMs: 20000,
+  adaptSettleMs: 300,
+  adaptRiseTauMs: 5000,
+  adaptFallTauMs: 20000,
+  adaptFreezeAfterMs: 5000,
+  adaptMinRatio: 0.75,
+  adaptMaxRatio: 1.35,
+  alarm: true,
+  cues: false,
+  cueStartRatio: 0.6,
+  breakReminders: true,
+  breakIntervalMs: 20 * 60 * 1000,
+  breakDurationMs: 20000,
+  breakMissAfterMs: 5 * 60 * 1000,
+  gradingProfile: DEFAULT_GRADING_PROFILE,
+};
+
+// `left`/`right` are null when no face was found in the frame; `pose` is
+// optional so sources without depth (or older recordings) still work.
+export type EarFrame =
+  | { t: number; left: number; right: number; pose?: HeadPose | null }
+  | { t: number; left: null; right: null; pose?: null };
+
+export type BlinkEngineEvent =
+  | { type: "calibrated"; t: number; baselineEar: number }
+  | { type: "blink"; t: number; blink: BlinkEvent; count: number }
+  | { type: "incompleteBlink"; t: number; count: number }
+  | { type: "unilateralClosure"; t: number; closure: UnilateralClosure }
+  | { type: "alertStart"; t: number; count: number }
+  | { type: "alertEnd"; t: number }
+  | { type: "cueStart"; t: number; count: number }
+  | { type: "cueEnd"; t: number; reachedThreshold: boolean }
+  | { type: "breakDue"; t: number; count: number }
+  | { type: "breakEnd"; t: number; reminder: BreakReminder }
+  | { type: "faceLost"; t: number; reason: "noFace" | "headPose" }
+  | { type: "faceFound"; t: number };
+
+export type BlinkEngineSnapshot = {
+  calibrating: boolean;
+  faceDetected: boolean;
+  blinks: number;
+  incompleteBlinks: number;
+  secondsSinceBlink: number;
+  blinksPerMin: number;
+  alertOn: boolean;
+  // 0 without a cue, rising to 1 at the no-blink threshold and staying there.
+  cueLevel: number;
+  headPose: HeadPose | null;
+  poseWithinLimits: boolean;
+  eyeStates: Record<EyeSide, "OPEN" | "CLOSED">;
+  // Current (adaptive) baseline and the one fixed by calibration.
+  baselineEar: number | null;
+  calibratedBaselineEar: number | null;
+  // Break reminder state; `breakAwaySec` is how long the face has been away so
+  // far and `secondsUntilBreak` is null when reminders are off or one is due.
+  breakDue: boolean;
+  breakAwaySec: number;
+  secondsUntilBreak: number | null;
+  // Processed frames per second over the last few seconds (null until measured),
+  // and whether that is too low for reliable detection.
+  fps: number | null;
+  lowFps: boolean;
+  processedFrames: number;
+  droppedFrames: number;
+  sourceFps: number;
+};
+
+export type BlinkEngineResult = {
+  summary: SessionSummary;
+  timeline: SessionTimeline;
+  // Baseline fixed by calibration; the summary reports how far it drifted since.
+  baselineEar: number | null;
+};
+
+type EyeSide = "left" | "right";
+
+// Window over which the live processing frame rate is measured.
+const FPS_WINDOW_MS = 2000;
+
+// Each eye runs its own OPEN/CLOSED machine against its own baseline.
+type EyeTracker = {
+  state: "OPEN" | "CLOSED";
+  closedMs: number;
+  // Whether the previous frame was below the close threshold.
+  wasClosed: boolean;
+  startMs: number;
+  lastEndAt: number;
+  otherClosed: boolean;
+  count: number;
+};
+
+function createEyeTracker(): EyeTracker {
+  return {
+    state: "OPEN",
+    closedMs: 0,
+    wasClosed: false,
+    startMs: 0,
+    lastEndAt: -Infinity,
+    otherClosed: false,
+    count: 0,
+  };
+}
+
+export type BlinkEngine = {
+  processLandmarks: (t: number, landmarks: Point[] | null, aspect?: number) => BlinkEngineEvent[];
+  processFrame: (frame: EarFrame) => BlinkEngineEvent[];
+  snapshot: (t: number) => BlinkEngineSnapshot;
+  // Dismisses a due break reminder; it is recorded as missed.
+  skipBreak: (t: number) => BlinkEngineEvent[];
+  // Updates the source frame rate, e.g. after the camera was switched.
+  setSourceFps: (fps: number) => void;
+  finish: (t: number) => BlinkEngineResult;
+};
+
+export function createBlinkEngine(
+  config: Partial<BlinkEngineConfig> & Pick<BlinkEngineConfig, "noBlinkThresholdSec">,
+  startTime: number,
+): BlinkEngine {
+  const cfg: BlinkEngineConfig = { ...DEFAULT_ENGINE_CONFIG, ...config };
+  if (cfg.calibration) {
+    cfg.closeRatio = cfg.calibration.closeRatio;
+    cfg.openRatio = cfg.calibration.openRatio;
+    cfg.partialRatio = cfg.calibration.partialRatio;
+  }
+
+  let faceDetected = false;
+  let faceMissingSince: number | null = null;
+  let headPose: HeadPose | null = null;
+  let poseWithinLimits = true;
+  let offPoseMs = 0;
+
+  let baselineEar: number | null = null;
+  let calibratedBaselineEar: number | null = null;
+  let calibStart: number | null = null;
+  let maxEar = 0;
+  const openSamples: number[] = [];
+  const leftOpenSamples: number[] = [];
+  const rightOpenSamples: number[] = [];
+  let calibratedEyeBaselines: Record<EyeSide, number> | null = null;
+  const eyes: Record<EyeSide, EyeTracker> = { left: createEyeTracker(), right: createEyeTracker() };
+  const unilateralClosures: UnilateralClosure[] = [];
+  let recentOpen: { t: number; ear: number }[] = [];
+  let lastReopenAt: number | null = null;
+  let minBaselineEar: number | null = null;
+  let maxBaselineEar: number | null = null;
+
+  let eyeState: "OPEN" | "CLOSED" = "OPEN";
+  let closedFrames = 0;
+  let closedMs = 0;
+  let lastBlinkAt = -Infinity;
+  let partialDip: { lowMs: number; minEar: number; unilateral: boolean } | null = null;
+  // Whether the previous usable frame was below the close / partial threshold.
+  let prevClosed = false;
+  let prevLow = false;
+  let currentBlink: {
+    onsetMs: number;
+    startMs: number;
+    lastClosedMs: number;
+    minEar: number;
+    minLeftEar: number;
+    minRightEar: number;
+    // Set when one eye closed on its own during this closure (see updateEye).
+    unilateral: boolean;
+  } | null = null;
+  let lastFullyOpenMs: number | null = null;
+
+  let lastBlinkVisibleTotalMs: number | null = null;
+  let lastFrameAt: number | null = null;
+  let recentFrameTimes: number[] = [];
+  // Time of the last frame with a usable face.
+  let faceUsableAt: number | null = null;
+  let processedFrames = 0;
+  let droppedFrames = 0;
+  let observedMs = 0;
+  let observedIntervals = 0;
+  let lowFpsTimeMs = 0;
+
+  let blinkCount = 0;
+  let incompleteBlinkCount = 0;
+  let totalVisibleMs = 0;
+  let totalHiddenMs = 0;
+  let visibleSegmentStart: number | null = null;
+  let hiddenSegmentStart: number | null = startTime;
+
+  let alertOn = false;
+  let alertStart: number | null = null;
+  let alertCount = 0;
+  let cueStart: number | null = null;
+  let cueReachedThreshold = false;
+  let cueCount = 0;
+  let longestNoBlinkMs = 0;
+  let riskyVisibleMs = 0;
+  let blinkIntegralMs = 0;
+  const blinkIntervals: number[] = [];
+  const blinkEvents: BlinkEvent[] = [];
+
+  const earSamples: EarSample[] = [];
+  const faceSegments: FaceSegment[] = [];
+  const alertPeriods: AlertPeriod[] = [];
+  const cuePeriods: CuePeriod[] = [];
+
+  let lastBreakVisibleMs = 0;
+  let breakDue: { at: number; visibleMs: number } | null = null;
+  let awayCounted = false;
+  let selfInitiatedBreaks = 0;
+  const breakReminders: BreakReminder[] = [];
+
+  function getVisibleTotalMs(now: number) {
+    return totalVisibleMs + (visibleSegmentStart !== null ? now - visibleSegmentStart : 0);
+  }
+
+  function closeFaceSegment(visible: boolean, segmentStart: number, now: number) {
+    const durationMs = Math.max(0, now - segmentStart);
+    if (visible) totalVisibleMs += durationMs;
+    else totalHiddenMs += durationMs;
+
+    faceSegments.push({ startMs: segmentStart - startTime, endMs: now - startTime, visible });
+  }
+
+  function updateFaceVisibility(
+    isFaceVisible: boolean,
+    now: number,
+    events: BlinkEngineEvent[],
+    reason: "noFace" | "headPose" = "noFace",
+  ) {
+    if (isFaceVisible === faceDetected) return;
+
+    if (isFaceVisible) {
+      if (hiddenSegmentStart !== null) {
+        closeFaceSegment(false, hiddenSegmentStart, now);
+        hiddenSegmentStart = null;
+      }
+      visibleSegmentStart = now;
+    } else {
+      if (visibleSegmentStart !== null) {
+        closeFaceSegment(true, visibleSegmentStart, now);
+        visibleSegmentStart = null;
+      }
+      hiddenSegmentStart = now;
+    }
+
+    faceDetected = isFaceVisible;
+    events.push(isFaceVisible ? { type: "faceFound", t: now } : { type: "faceLost", t: now, reason });
+  }
+
+  function endAlert(now: number, events: BlinkEngineEvent[]) {
+    if (!alertOn) return;
+    alertOn = false;
+
+    if (alertStart !== null) {
+      alertPeriods.push({ startMs: alertStart - startTime, endMs: now - startTime });
+      alertStart = null;
+    }
+    events.push({ type: "alertEnd", t: now });
+  }
+
+  function endCue(now: number, events: BlinkEngineEvent[]) {
+    if (cueStart === null) return;
+    cuePeriods.push({ startMs: cueStart - startTime, endMs: now - startTime, reachedThreshold: cueReachedThreshold });
+    cueStart = null;
+    events.push({ type: "cueEnd", t: now, reachedThreshold: cueReachedThreshold });
+  }
+
+  function endBreak(now: number, taken: boolean, events: BlinkEngineEvent[]) {
+    if (!breakDue) return;
+    const reminder: BreakReminder = { dueMs: breakDue.at - startTime, endMs: now - startTime, taken };
+    breakReminders.push(reminder);
+    breakDue = null;
+    lastBreakVisibleMs = getVisibleTotalMs(now);
+    events.push({ type: "breakEnd", t: now, reminder });
+  }
+
+  // Runs after face visibility is settled for the frame. An away period is
+  // counted once, as soon as it reaches the break duration.
+  function updateBreaks(now: number, events: BlinkEngineEvent[]) {
+    if (!cfg.breakReminders) return;
+    const visibleMs = getVisibleTotalMs(now);
+
+    if (!faceDetected) {
+      const awayMs = hiddenSegmentStart === null ? 0 : now - hiddenSegmentStart;
+      if (awayCounted || awayMs < cfg.breakDurationMs) return;
+      awayCounted = true;
+
+      if (breakDue) endBreak(now, true, events);
+      else if (visibleMs > lastBreakVisibleMs) {
+        selfInitiatedBreaks += 1;
+        lastBreakVisibleMs = visibleMs;
+      }
+      return;
+    }
+
+    awayCounted = false;
+    if (breakDue === null) {
+      if (visibleMs - lastBreakVisibleMs >= cfg.breakIntervalMs) {
+        breakDue = { at: now, visibleMs };
+        events.push({ type: "breakDue", t: now, count: breakReminders.length + 1 });
+      }
+    } else if (visibleMs - breakDue.visibleMs >= cfg.breakMissAfterMs) {
+      endBreak(now, false, events);
+    }
+  }
+
+  // Nudges the baseline toward the median of recent open-eye frames. Only
+  // frames well clear of a blink count, and the baseline is never lowered while
+  // the user has gone a long time without blinking, since eyes that are drying
+  // out or squinting during a stare would otherwise drag the thresholds down.
+  function adaptBaseline(curEar: number, now: number, deltaMs: number, visibleElapsedMs: number, partialThr: number) {
+    if (!cfg.adaptiveBaseline || baselineEar === null || calibratedBaselineEar === null) return;
+
+    const settled = lastReopenAt === null || now - lastReopenAt >= cfg.adaptSettleMs;
+    if (eyeState === "OPEN" && partialDip === null && settled && curEar >= partialThr) {
+      recentOpen.push({ t: now, ear: curEar });
+    }
+    recentOpen = recentOpen.filter((s) => now - s.t <= cfg.adaptWindowMs);
+    const target = percentile(recentOpen.map((s) => s.ear), 50);
+    if (target === null || deltaMs === 0) return;
+
+    const rising = target > baselineEar;
+    if (!rising && (alertOn || visibleElapsedMs >= cfg.adaptFreezeAfterMs)) return;
+
+    const alpha = 1 - Math.exp(-deltaMs / (rising ? cfg.adaptRiseTauMs : cfg.adaptFallTauMs));
+    const next = baselineEar + (target - baselineEar) * alpha;
+    baselineEar = Math.min(
+      calibratedBaselineEar * cfg.adaptMaxRatio,
+      Math.max(calibratedBaselineEar * cfg.adaptMinRatio, next),
+    );
+
+    minBaselineEar = Math.min(minBaselineEar ?? baselineEar, baselineEar);
+    maxBaselineEar = Math.max(maxBaselineEar ?? baselineEar, baselineEar);
+  }
+
+  function setCalibration(
+    baseline: number,
+    eyeBaselines: Record<EyeSide, number>,
+    now: number,
+    events: BlinkEngineEvent[],
+  ) {
+    baselineEar = baseline;
+    calibratedBaselineEar = baseline;
+    calibratedEyeBaselines = eyeBaselines;
+    minBaselineEar = baseline;
+    maxBaselineEar = baseline;
+    lastBlinkVisibleTotalMs = getVisibleTotalMs(now);
+    events.push({ type: "calibrated", t: now, baselineEar: baseline });
+  }
+
+  // Per-eye thresholds follow the adaptive baseline by the same ratio.
+  function updateEye(
+    side: EyeSide,
+    value: number,
+    now: number,
+    sessionMs: number,
+    halfStepMs: number,
+    events: BlinkEngineEvent[],
+  ) {
+    if (!calibratedEyeBaselines || baselineEar === null || calibratedBaselineEar === null) return;
+
+    const tracker = eyes[side];
+    const other = eyes[side === "left" ? "right" : "left"];
+    const base = calibratedEyeBaselines[side] * (baselineEar / calibratedBaselineEar);
+    const closeThr = base * cfg.closeRatio;
+    const isClosed = value < closeThr;
+    const closedStepMs = (tracker.wasClosed ? halfStepMs : 0) + (isClosed ? halfStepMs : 0);
+    tracker.wasClosed = isClosed;
+
+    if (tracker.state === "OPEN") {
+      if (isClosed) {
+        tracker.state = "CLOSED";
+        tracker.closedMs = closedStepMs;
+        tracker.startMs = sessionMs;
+        tracker.otherClosed = other.state === "CLOSED";
+      }
+      return;
+    }
+
+    tracker.closedMs += closedStepMs;
+    if (other.state === "CLOSED") tracker.otherClosed = true;
+    else if (partialDip) partialDip.unilateral = true;
+
+    if (value <= base * cfg.openRatio) return;
+
+    if (tracker.closedMs >= cfg.minClosedMs && now - tracker.lastEndAt >= cfg.minBlinkGapMs) {
+      tracker.count += 1;
+      tracker.lastEndAt = now;
+
+      if (!tracker.otherClosed) {
+        const closure: UnilateralClosure = {
+          eye: side,
+          kind: sessionMs - tracker.startMs <= cfg.winkMaxMs ? "wink" : "oneEyeClosure",
+          startMs: tracker.startMs,
+          endMs: sessionMs,
+        };
+        unilateralClosures.push(closure);
+        events.push({ type: "unilateralClosure", t: now, closure });
+        if (currentBlink) currentBlink.unilateral = true;
+      }
+    }
+
+    tracker.state = "OPEN";
+    tracker.closedMs = 0;
+  }
+
+  // Counts a frame with a usable face towards the frame-rate statistics; time
+  // without one (where the app may slow down on purpose) is left out. A null
+  // interval, after a stall or when the face reappears, restarts the live rate.
+  function trackFrameRate(now: number, intervalMs: number | null) {
+    processedFrames += 1;
+    if (intervalMs === null) recentFrameTimes = [];
+    else if (intervalMs > 0) {
+      observedMs += intervalMs;
+      observedIntervals += 1;
+      droppedFrames += Math.max(0, Math.round((intervalMs * cfg.sourceFps) / 1000) - 1);
+    }
+    recentFrameTimes.push(now);
+    recentFrameTimes = recentFrameTimes.filter((t) => now - t <= FPS_WINDOW_MS);
+  }
+
+  function currentFps() {
+    const n = recentFrameTimes.length;
+    const spanMs = n > 1 ? recentFrameTimes[n - 1] - recentFrameTimes[0] : 0;
+    return spanMs >= FPS_WINDOW_MS / 2 ? ((n - 1) / spanMs) * 1000 : null;
+  }
+
+  function isFpsLow() {
+    const fps = currentFps();
+    return fps !== null && fps < cfg.minReliableFps;
+  }
+
+  function processFrame(frame: EarFrame): BlinkEngineEvent[] {
+    const events: BlinkEngineEvent[] = [];
+    const now = frame.t;
+
+    let deltaMs = lastFrameAt === null ? 0 : Math.max(0, now - lastFrameAt);
+    const prevFrameAt = lastFrameAt;
+    lastFrameAt = now;
+
+    // If frames stopped arriving (tab frozen, camera stalled), the gap was not
+    // observed, so book it as hidden time instead of extending a visible segment.
+    const stalled = prevFrameAt !== null && deltaMs > cfg.frameStallMs;
+    if (stalled) {
+      if (faceDetected) updateFaceVisibility(false, prevFrameAt, events);
+      deltaMs = 0;
+    }
+
+    headPose = frame.pose ?? null;
+    poseWithinLimits =
+      !cfg.poseCompensation || headPose === null || isPoseWithinLimits(headPose, cfg.maxYawDeg, cfg.maxPitchDeg);
+
+    // A face turned too far away is treated exactly like a missing face.
+    if (frame.left === null || !poseWithinLimits) {
+      if (faceMissingSince === null) faceMissingSince = now;
+
+      if (now - faceMissingSince >= cfg.faceLostDebounceMs) {
+        if (faceDetected) updateFaceVisibility(false, now, events, frame.left === null ? "noFace" : "headPose");
+        endAlert(now, events);
+        endCue(now, events);
+      }
+      if (frame.left !== null && !faceDetected) offPoseMs += deltaMs;
+      lastFullyOpenMs = null;
+      prevClosed = false;
+      prevLow = false;
+      eyes.left.wasClosed = false;
+      eyes.right.wasClosed = false;
+      updateBreaks(now, events);
+
+      return events;
+    }
+
+    faceMissingSince = null;
+    const resumed = !faceDetected || faceUsableAt !== prevFrameAt;
+    faceUsableAt = now;
+    if (!faceDetected) updateFaceVisibility(true, now, events);
+    updateBreaks(now, events);
+    trackFrameRate(now, resumed || stalled ? null : deltaMs);
+    if (isFpsLow()) lowFpsTimeMs += deltaMs;
+
+    const pose = cfg.poseCompensation ? headPose : null;
+    const left = pose ? compensateEar(frame.left, pose) : frame.left;
+    const right = pose ? compensateEar(frame.right, pose) : frame.right;
+    const curEar = (left + right) / 2;
+    const sessionMs = now - startTime;
+
+    earSamples.push({ t: sessionMs, left, right });
+
+    if (baselineEar === null && cfg.calibration) {
+      const { openEar, leftOpenEar, rightOpenEar } = cfg.calibration;
+      setCalibration(openEar, { left: leftOpenEar, right: rightOpenEar }, now, events);
+    }
+
+    if (baselineEar === null) {
+      if (calibStart === null) calibStart = now;
+
+      maxEar = Math.max(maxEar, curEar);
+      if (curEar > maxEar * 0.8) {
+        openSamples.push(curEar);
+        leftOpenSamples.push(left);
+        rightOpenSamples.push(right);
+      }
+
+      if (now - calibStart >= cfg.calibrationMs) {
+        const baseline = mean(openSamples) ?? maxEar;
+        setCalibration(
+          baseline,
+          { left: mean(leftOpenSamples) ?? baseline, right: mean(rightOpenSamples) ?? baseline },
+          now,
+          events,
+        );
+      }
+
+      return events;
+    }
+
+    const baseline = baselineEar;
+    const closeThr = baseline * cfg.closeRatio;
+    const openThr = baseline * cfg.openRatio;
+    const partialThr = baseline * cfg.partialRatio;
+    const halfStepMs = Math.min(deltaMs, cfg.maxCreditedIntervalMs) / 2;
+    const isClosed = curEar < closeThr;
+    const isLow = curEar < partialThr;
+    const closedStepMs = (prevClosed ? halfStepMs : 0) + (isClosed ? halfStepMs : 0);
+    const lowStepMs = (prevLow ? halfStepMs : 0) + (isLow ? halfStepMs : 0);
+    prevClosed = isClosed;
+    prevLow = isLow;
+
+    updateEye("left", left, now, sessionMs, halfStepMs, events);
+    updateEye("right", right, now, sessionMs, halfStepMs, events);
+
+    // The closing phase of a blink starts at the last fully open frame.
+    if (eyeState === "OPEN" && curEar >= openThr) lastFullyOpenMs = sessionMs;
+
+    if (eyeState === "OPEN") {
+      if (isClosed) {
+        closedFrames = 1;
+        closedMs = closedStepMs;
+        eyeState = "CLOSED";
+        currentBlink = {
+          onsetMs: lastFullyOpenMs ?? sessionMs,
+          startMs: sessionMs,
+          lastClosedMs: sessionMs,
+          minEar: curEar,
+          minLeftEar: left,
+          minRightEar: right,
+          unilateral: false,
+        };
+        partialDip = null;
+      } else if (isLow) {
+        // The lid dropped noticeably but has not (yet) crossed closeThr.
+        const dip = partialDip ?? { lowMs: 0, minEar: curEar, unilateral: false };
+        dip.lowMs += lowStepMs;
+        dip.minEar = Math.min(dip.minEar, curEar);
+        partialDip = dip;
+      } else if (partialDip) {
+        const dip = partialDip;
+        dip.lowMs += lowStepMs;
+
+        if (curEar > openThr) {
+          partialDip = null;
+          // A wink also pulls the average down; it is reported on its own instead.
+          if (!dip.unilateral && dip.lowMs >= cfg.minPartialMs && now - lastBlinkAt >= cfg.minBlinkGapMs) {
+            incompleteBlinkCount += 1;
+            events.push({ type: "incompleteBlink", t: now, count: incompleteBlinkCount });
+          }
+        }
+      }
+    } else {
+      blinkIntegralMs += deltaMs;
+      closedMs += closedStepMs;
+
+      if (isClosed) {
+        closedFrames += 1;
+        if (currentBlink) currentBlink.lastClosedMs = sessionMs;
+      }
+
+      if (currentBlink) {
+        currentBlink.minEar = Math.min(currentBlink.minEar, curEar);
+        currentBlink.minLeftEar = Math.min(currentBlink.minLeftEar, left);
+        currentBlink.minRightEar = Math.min(currentBlink.minRightEar, right);
+      }
+
+      if (curEar > openThr) {
+        const longEnough = closedMs >= cfg.minClosedMs;
+        const farEnough = now - lastBlinkAt >= cfg.minBlinkGapMs;
+        // A wink also pulls the average down; it is reported on its own instead,
+        // including when the winking eye is still a frame short of reopening.
+        const oneEye =
+          currentBlink?.unilateral ||
+          Object.values(eyes).some((eye) => eye.state === "CLOSED" && !eye.otherClosed);
+
+        if (longEnough && farEnough && !oneEye) {
+          const currentVisibleTotal = getVisibleTotalMs(now);
+
+          if (lastBlinkVisibleTotalMs !== null) {
+            const spacingMs = Math.max(0, currentVisibleTotal - lastBlinkVisibleTotalMs);
+            if (spacingMs > 0) blinkIntervals.push(spacingMs);
+          }
+
+          const closure = currentBlink ?? {
+            onsetMs: sessionMs,
+            startMs: sessionMs,
+            lastClosedMs: sessionMs,
+            minEar: curEar,
+            minLeftEar: left,
+            minRightEar: right,
+            unilateral: false,
+          };
+          const blink: BlinkEvent = {
+            startMs: closure.startMs,
+            endMs: sessionMs,
+            closingMs: closure.startMs - closure.onsetMs,
+            closedMs: closure.lastClosedMs - closure.startMs,
+            reopeningMs: sessionMs - closure.lastClosedMs,
+            closedFrames,
+            minEar: closure.minEar,
+            minLeftEar: closure.minLeftEar,
+            minRightEar: closure.minRightEar,
+            closureDepth: Math.max(0, Math.min(1, 1 - closure.minEar / baseline)),
+            asymmetry: Math.abs(closure.minLeftEar - closure.minRightEar) / baseline,
+          };
+          blinkEvents.push(blink);
+
+          blinkCount += 1;
+          lastBlinkAt = now;
+          lastBlinkVisibleTotalMs = currentVisibleTotal;
+          events.push({ type: "blink", t: now, blink, count: blinkCount });
+          endAlert(now, events);
+        }
+
+        eyeState = "OPEN";
+        closedFrames = 0;
+        closedMs = 0;
+        currentBlink = null;
+        lastReopenAt = now;
+      }
+    }
+
+    const visibleElapsedMs =
+      lastBlinkVisibleTotalMs === null ? 0 : Math.max(0, getVisibleTotalMs(now) - lastBlinkVisibleTotalMs);
+
+    if (visibleElapsedMs > longestNoBlinkMs) longestNoBlinkMs = visibleElapsedMs;
+
+    adaptBaseline(curEar, now, deltaMs, visibleElapsedMs, partialThr);
+
+    if (cfg.cues && visibleElapsedMs / 1000 >= cfg.noBlinkThresholdSec * cfg.cueStartRatio) {
+      if (cueStart === null) {
+        cueStart = now;
+        cueReachedThreshold = false;
+        cueCount += 1;
+        events.push({ type: "cueStart", t: now, count: cueCount });
+      }
+      if (visibleElapsedMs / 1000 >= cfg.noBlinkThresholdSec) cueReachedThreshold = true;
+    } else {
+      endCue(now, events);
+    }
+
+    if (visibleElapsedMs / 1000 >= cfg.noBlinkThresholdSec) {
+      riskyVisibleMs += deltaMs;
+
+      if (cfg.alarm && !alertOn) {
+        alertOn = true;
+        alertStart = now;
+        alertCount += 1;
+        events.push({ type: "alertStart", t: now, count: alertCount });
+      }
+    } else {
+      endAlert(now, events);
+    }
+
+    return events;
+  }
+
+  // `aspect` is the video width / height, needed to estimate head pose.
+  function processLandmarks(t: number, landmarks: Point[] | null, aspect = 1) {
+    if (!landmarks) return processFrame({ t, left: null, right: null });
+    const { left, right } = eyeAspectRatios(landmarks);
+    return processFrame({ t, left, right, pose: estimateHeadPose(landmarks, aspect) });
+  }
+
+  function snapshot(t: number): BlinkEngineSnapshot {
+    const visibleMs = getVisibleTotalMs(t);
+    const visibleMinutes = visibleMs / 60000;
+    const secondsSinceBlink =
+      lastBlinkVisibleTotalMs === null ? 0 : Math.max(0, visibleMs - lastBlinkVisibleTotalMs) / 1000;
+    const cueFromSec = cfg.noBlinkThresholdSec * cfg.cueStartRatio;
+    const cueSpanSec = cfg.noBlinkThresholdSec - cueFromSec;
+    const fps = currentFps();
+
+    return {
+      calibrating: baselineEar === null,
+      faceDetected,
+      blinks: blinkCount,
+      incompleteBlinks: incompleteBlinkCount,
+      secondsSinceBlink,
+      blinksPerMin: visibleMinutes > 0 ? blinkCount / visibleMinutes : 0,
+      alertOn,
+      cueLevel:
+        cueStart === null
+          ? 0
+          : cueSpanSec > 0
+            ? Math.min(1, Math.max(0, (secondsSinceBlink - cueFromSec) / cueSpanSec))
+            : 1,
+      headPose,
+      poseWithinLimits,
+      eyeStates: { left: eyes.left.state, right: eyes.right.state },
+      baselineEar,
+      calibratedBaselineEar,
+      breakDue: breakDue !== null,
+      breakAwaySec:
+        breakDue !== null && !faceDetected && hiddenSegmentStart !== null ? (t - hiddenSegmentStart) / 1000 : 0,
+      secondsUntilBreak:
+        cfg.breakReminders && breakDue === null
+          ? Math.max(0, cfg.breakIntervalMs - (visibleMs - lastBreakVisibleMs)) / 1000
+          : null,
+      fps,
+      lowFps: faceDetected && fps !== null && fps < cfg.minReliableFps,
+      processedFrames,
+      droppedFrames,
+      sourceFps: cfg.sourceFps,
+    };
+  }
+
+  function skipBreak(t: number) {
+    const events: BlinkEngineEvent[] = [];
+    endBreak(t, false, events);
+    return events;
+  }
+
+  function setSourceFps(fps: number) {
+    if (fps > 0) cfg.sourceFps = fps;
+  }
+
+  function finish(t: number): BlinkEngineResult {
+    if (visibleSegmentStart !== null) {
+      closeFaceSegment(true, visibleSegmentStart, t);
+      visibleSegmentStart = null;
+    }
+    if (hiddenSegmentStart !== null) {
+      closeFaceSegment(false, hiddenSegmentStart, t);
+      hiddenSegmentStart = null;
+    }
+    endAlert(t, []);
+    endCue(t, []);
+
+    const totalSessionTime = Math.max(0, t - startTime);
+    const averageBlinksPerMinute = totalVisibleMs > 0 ? blinkCount / (totalVisibleMs / 60000) : 0;
+    const averageBlinkSpacingMs = mean(blinkIntervals);
+    const blinkSpacingStdMs = stdDev(blinkIntervals);
+    const blinkDurations = blinkEvents.map(blinkDurationMs);
+    const slowBlinkFraction =
+      blinkDurations.length > 0
+        ? blinkDurations.filter((d) => d > cfg.slowBlinkMs).length / blinkDurations.length
+        : null;
+
+    const grading = gradeSession(
+      {
+        visibleMs: totalVisibleMs,
+        totalMs: totalSessionTime,
+        bpm: averageBlinksPerMinute,
+        blinks: blinkCount,
+        incompleteBlinks: incompleteBlinkCount,
+        alerts: alertCount,
+        longestNoBlinkMs,
+        riskyVisibleMs,
+        blinkIntegralMs,
+        averageBlinkSpacingMs,
+        blinkSpacingStdMs,
+        meanBlinkDurationMs: mean(blinkDurations),
+        slowBlinkFraction,
+      },
+      cfg.gradingProfile,
+    );
+
+    const driftPercent = (ear: number | null) =>
+      ear === null || calibratedBaselineEar === null ? null : (ear / calibratedBaselineEar - 1) * 100;
+    const breaksTaken = breakReminders.filter((b) => b.taken).length;
+    const lowDrift = driftPercent(minBaselineEar);
+    const highDrift = driftPercent(maxBaselineEar);
+
+    const summary: SessionSummary = {
+      totalBlinks: blinkCount,
+      incompleteBlinks: incompleteBlinkCount,
+      totalVisibleTimeMs: totalVisibleMs,
+      totalHiddenTimeMs: totalHiddenMs,
+      offPoseTimeMs: offPoseMs,
+      totalSessionTimeMs: totalSessionTime,
+      averageBlinksPerMinute,
+
+      totalAlerts: alertCount,
+      totalCues: cueCount,
+      cuesClearedBeforeAlert: cuePeriods.filter((c) => !c.reachedThreshold).length,
+      longestNoBlinkMs,
+      visibilityPercent: grading.visibilityPercent,
+      blinkCompliancePercent: grading.blinkCompliancePercent,
+
+      blinkIntegralMs,
+      averageBlinkSpacingMs,
+      blinkSpacingStdMs,
+      blinkEvents: [...blinkEvents],
+
+      meanBlinkDurationMs: mean(blinkDurations),
+      medianBlinkDurationMs: percentile(blinkDurations, 50),
+      p90BlinkDurationMs: percentile(blinkDurations, 90),
+      slowBlinkFraction,
+      meanClosingMs: mean(blinkEvents.map((e) => e.closingMs)),
+      meanClosedMs: mean(blinkEvents.map((e) => e.closedMs)),
+      meanReopeningMs: mean(blinkEvents.map((e) => e.reopeningMs)),
+
+      leftEyeBlinks: eyes.left.count,
+      rightEyeBlinks: eyes.right.count,
+      winks: unilateralClosures.filter((c) => c.kind === "wink").length,
+      oneEyeClosures: unilateralClosures.filter((c) => c.kind === "oneEyeClosure").length,
+      blinkAsymmetryIndex:
+        eyes.left.count + eyes.right.count > 0
+          ? (eyes.left.count - eyes.right.count) / (eyes.left.count + eyes.right.count)
+          : null,
+      unilateralClosures: [...unilateralClosures],
+
+      calibrationQuality: cfg.calibration?.quality ?? null,
+      processedFrames,
+      droppedFrames,
+      averageFps: observedMs > 0 ? (observedIntervals / observedMs) * 1000 : null,
+      lowFpsTimeMs,
+      finalBaselineEar: baselineEar,
+      baselineDriftPercent: driftPercent(baselineEar),
+      maxBaselineDriftPercent:
+        lowDrift === null || highDrift === null ? null : Math.abs(lowDrift) > highDrift ? lowDrift : highDrift,
+
+      breakReminders: [...breakReminders],
+      breaksTaken,
+      breaksMissed: breakReminders.length - breaksTaken,
+      breakCompliancePercent: breakReminders.length > 0 ? (breaksTaken / breakReminders.length) * 100 : null,
+      selfInitiatedBreaks,
+
+      score: grading.score,
+      grade: grading.grade,
+      gradeReason: grading.gradeReason,
+      scoreFactors: grading.factors,
+      gradingProfileId: cfg.gradingProfile.id,
+      gradingProfileName: cfg.gradingProfile.name,
+    };
+
+    return {
+      summary,
+      timeline: { earSamples, faceSegments, alertPeriods, cuePeriods },
+      baselineEar: calibratedBaselineEar,
+    };
+  }
+
+  return { processLandmarks, processFrame, snapshot, skipBreak, setSourceFps, finish };
+}
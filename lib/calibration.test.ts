@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { EarFrame } from "./blinkEngine";
+import { createCalibrationWizard, type CalibrationConfig, type CalibrationResult } from "./calibration";
+
+const OPEN_EAR = 0.3;
+const CLOSED_EAR = 0.05;
+const FRAME_MS = 33;
+
+// Feeds the wizard ~30 fps frames from `ear(t)` (null for no face) until it
+// finishes or `maxMs` passes.
+function calibrate(ear: (t: number) => number | null, config: Partial<CalibrationConfig> = {}, maxMs = 30000) {
+  const wizard = createCalibrationWizard(config);
+  for (let t = 0; t <= maxMs && !wizard.result(); t += FRAME_MS) {
+    const value = ear(t);
+    const frame: EarFrame = value === null ? { t, left: null, right: null } : { t, left: value, right: value };
+    wizard.processFrame(frame);
+  }
+  return wizard.result();
+}
+
+// Eyes open for the open step (4 s), then a 150 ms blink every second.
+const blinking = (t: number) => (t > 4500 && t % 1000 < 150 ? CLOSED_EAR : OPEN_EAR);
+
+const messages = (result: CalibrationResult | null) => result?.issues.map((i) => i.message) ?? [];
+
+describe("createCalibrationWizard", () => {
+  it("derives the thresholds from the open and closed EAR", () => {
+    const result = calibrate(blinking);
+
+    expect(result).not.toBeNull();
+    expect(result?.reliable).toBe(true);
+    expect(result?.issues).toEqual([]);
+    expect(result?.quality).toBeGreaterThanOrEqual(90);
+    expect(result?.openEar).toBeCloseTo(OPEN_EAR);
+    expect(result?.closedEar).toBeCloseTo(CLOSED_EAR);
+    expect(result?.blinksDetected).toBe(3);
+    expect(result?.faceCoverage).toBe(1);
+
+    // The thresholds sit between the closed (0) and open (1) level.
+    const at = (fraction: number) => (CLOSED_EAR + (OPEN_EAR - CLOSED_EAR) * fraction) / OPEN_EAR;
+    expect(result?.closeRatio).toBeCloseTo(at(0.43));
+    expect(result?.partialRatio).toBeCloseTo(at(0.62));
+    expect(result?.openRatio).toBeCloseTo(at(0.73));
+  });
+
+  it("refuses a calibration without the prompted blinks", () => {
+    const result = calibrate(() => OPEN_EAR);
+
+    expect(result?.reliable).toBe(false);
+    expect(result?.blinksDetected).toBe(0);
+    expect(messages(result)).toContain("Only 0 of 3 blinks were detected. Blink slowly and close your eyes fully.");
+  });
+
+  it("refuses a calibration where the face was often missing", () => {
+    const result = calibrate((t) => (t % 1000 < 400 ? null : blinking(t)));
+
+    expect(result?.reliable).toBe(false);
+    expect(result?.faceCoverage).toBeLessThan(0.8);
+    expect(messages(result).some((m) => m.startsWith("Your face was usable in only"))).toBe(true);
+  });
+
+  it("refuses an unsteady open-eye level", () => {
+    const levels = [0.26, 0.3, 0.4];
+    const result = calibrate((t) => (t < 4000 ? levels[Math.floor(t / 100) % 3] : blinking(t)));
+
+    expect(result?.reliable).toBe(false);
+    expect(result?.openVariation).toBeGreaterThan(0.12);
+    expect(messages(result)).toContain(
+      "Your open-eye level kept changing. Hold still and avoid squinting or blinking during the first step.",
+    );
+  });
+
+  it("measures the closed level in the eyes-closed step and refuses open eyes there", () => {
+    const closedStep = { closedStep: true };
+    const good = calibrate((t) => (t > 9000 ? 0.04 : blinking(t)), closedStep);
+    expect(good?.reliable).toBe(true);
+    expect(good?.closedEar).toBeCloseTo(0.04);
+
+    const bad = calibrate(blinking, closedStep);
+    expect(bad?.reliable).toBe(false);
+    expect(messages(bad)).toContain("Your eyes did not look closed during the eyes-closed step.");
+  });
+
+  it("re-checks a saved calibration with the open step only", () => {
+    const reference = calibrate(blinking);
+    if (!reference) throw new Error("calibration did not finish");
+
+    const same = calibrate(() => OPEN_EAR * 1.05, { reference });
+    expect(same?.reliable).toBe(true);
+    expect(same?.closeRatio).toBe(reference.closeRatio);
+    expect(same?.closedEar).toBeCloseTo(CLOSED_EAR * 1.05);
+
+    const moved = calibrate(() => OPEN_EAR * 1.4, { reference });
+    expect(moved?.reliable).toBe(false);
+    expect(messages(moved)).toContain(
+      "Your open-eye level is 40% higher than in the saved calibration. Run a full calibration.",
+    );
+  });
+});
@@ -0,0 +1,338 @@
+import type { EarFrame } from "./blinkEngine";
+import { eyeAspectRatios, type Point } from "./eyeGeometry";
+import { compensateEar, estimateHeadPose, isPoseWithinLimits } from "./headPose";
+import { percentile, stdDev } from "./stats";
+
+// Guided calibration: the user holds their eyes open, blinks on request and
+// (optionally) closes their eyes, and the measured open and closed EAR give a
+// per-user baseline and thresholds. Frames are fed like BlinkEngine frames;
+// the wizard refuses a result when the data does not look trustworthy.
+
+export type CalibrationStepId = "open" | "blinks" | "closed";
+
+export type CalibrationConfig = {
+  openMs: number;
+  blinkCount: number;
+  // The blink step fails when the requested blinks are not seen by then.
+  blinkTimeoutMs: number;
+  closedStep: boolean;
+  closedMs: number;
+  // Samples from the start of each step are ignored while the user reacts to the prompt.
+  settleMs: number;
+  poseCompensation: boolean;
+  maxYawDeg: number;
+  maxPitchDeg: number;
+  // Quick re-check of a saved calibration: only the eyes-open step runs, and
+  // the saved thresholds are kept when the open level still matches.
+  reference: CalibrationResult | null;
+};
+
+export const DEFAULT_CALIBRATION_CONFIG: CalibrationConfig = {
+  openMs: 4000,
+  blinkCount: 3,
+  blinkTimeoutMs: 15000,
+  closedStep: false,
+  closedMs: 3000,
+  settleMs: 800,
+  poseCompensation: true,
+  maxYawDeg: 30,
+  maxPitchDeg: 25,
+  reference: null,
+};
+
+// Length of the eyes-open step in a quick re-check.
+export const RECHECK_OPEN_MS = 2500;
+// Largest relative change of the open-eye level a saved calibration tolerates.
+export const PROFILE_MISMATCH_RATIO = 0.2;
+
+export const CALIBRATION_STEPS: { id: CalibrationStepId; label: string; instruction: string }[] = [
+  { id: "open", label: "Eyes open", instruction: "Look at the screen with your eyes open and hold still." },
+  { id: "blinks", label: "Blinks", instruction: "Blink slowly and fully, one blink at a time." },
+  { id: "closed", label: "Eyes closed", instruction: "Close your eyes gently, count slowly to five, then open them." },
+];
+
+export type CalibrationIssue = {
+  // Blocking issues make the calibration unusable; the rest only lower the score.
+  blocking: boolean;
+  message: string;
+};
+
+export type CalibrationResult = {
+  // Median EAR with eyes open (both eyes averaged, and per eye).
+  openEar: number;
+  leftOpenEar: number;
+  rightOpenEar: number;
+  // EAR with eyes closed: the eyes-closed step when run, else the blink minima.
+  closedEar: number;
+  // Thresholds as fractions of openEar, in the form BlinkEngineConfig takes.
+  closeRatio: number;
+  openRatio: number;
+  partialRatio: number;
+  // 0-100; see scoreCalibration.
+  quality: number;
+  reliable: boolean;
+  issues: CalibrationIssue[];
+  // Share of frames with a usable face, coefficient of variation of the open
+  // EAR, blinks detected, and (open - closed) / open.
+  faceCoverage: number;
+  openVariation: number;
+  blinksDetected: number;
+  contrast: number;
+};
+
+export type CalibrationProgress = {
+  step: CalibrationStepId | "done";
+  // 0-1 within the current step.
+  stepProgress: number;
+  blinksDetected: number;
+  faceUsable: boolean;
+};
+
+export type CalibrationWizard = {
+  processFrame: (frame: EarFrame) => CalibrationProgress;
+  processLandmarks: (t: number, landmarks: Point[] | null, aspect?: number) => CalibrationProgress;
+  // Null until every step has finished.
+  result: () => CalibrationResult | null;
+};
+
+// Blink detection during the blink step, relative to the open EAR. Looser than
+// the engine's defaults since the thresholds are what is being measured.
+const BLINK_CLOSE_RATIO = 0.75;
+const BLINK_OPEN_RATIO = 0.88;
+// Where the derived thresholds sit between the closed (0) and open (1) EAR.
+const CLOSE_FRACTION = 0.43;
+const PARTIAL_FRACTION = 0.62;
+const OPEN_FRACTION = 0.73;
+
+const MIN_FACE_COVERAGE = 0.8;
+const MAX_OPEN_VARIATION = 0.12;
+const MIN_CONTRAST = 0.25;
+const MIN_QUALITY = 50;
+
+export function createCalibrationWizard(config: Partial<CalibrationConfig> = {}): CalibrationWizard {
+  const cfg: CalibrationConfig = { ...DEFAULT_CALIBRATION_CONFIG, ...config };
+  const steps = calibrationSteps(cfg.closedStep, cfg.reference !== null).map((s) => s.id);
+
+  let stepIndex = 0;
+  let stepStart: number | null = null;
+  let frames = 0;
+  let usableFrames = 0;
+
+  const openSamples: { left: number; right: number; ear: number }[] = [];
+  let openEar: number | null = null;
+
+  let blinkMin: number | null = null;
+  const blinkMinima: number[] = [];
+  let lastBlinkAt: number | null = null;
+
+  const closedSamples: number[] = [];
+  let finished: CalibrationResult | null = null;
+
+  function nextStep(now: number) {
+    stepIndex += 1;
+    stepStart = now;
+    if (stepIndex >= steps.length) finished = scoreCalibration();
+  }
+
+  function progress(now: number, faceUsable: boolean): CalibrationProgress {
+    const step = steps[stepIndex];
+    if (finished || !step) return { step: "done", stepProgress: 1, blinksDetected: blinkMinima.length, faceUsable };
+
+    const elapsed = stepStart === null ? 0 : now - stepStart;
+    const stepProgress =
+      step === "open"
+        ? elapsed / cfg.openMs
+        : step === "closed"
+          ? elapsed / cfg.closedMs
+          : blinkMinima.length / cfg.blinkCount;
+    return { step, stepProgress: Math.min(1, stepProgress), blinksDetected: blinkMinima.length, faceUsable };
+  }
+
+  function processFrame(frame: EarFrame): CalibrationProgress {
+    const now = frame.t;
+    if (finished) return progress(now, true);
+    if (stepStart === null) stepStart = now;
+
+    const pose = frame.pose ?? null;
+    const poseOk = !cfg.poseCompensation || pose === null || isPoseWithinLimits(pose, cfg.maxYawDeg, cfg.maxPitchDeg);
+    const faceUsable = frame.left !== null && poseOk;
+
+    frames += 1;
+    const step = steps[stepIndex];
+    const elapsed = now - stepStart;
+
+    if (faceUsable) {
+      usableFrames += 1;
+      const left = cfg.poseCompensation && pose ? compensateEar(frame.left, pose) : frame.left;
+      const right = cfg.poseCompensation && pose ? compensateEar(frame.right, pose) : frame.right;
+      const ear = (left + right) / 2;
+
+      if (step === "open" && elapsed >= cfg.settleMs) {
+        openSamples.push({ left, right, ear });
+      } else if (step === "blinks" && openEar !== null) {
+        if (ear < openEar * BLINK_CLOSE_RATIO) {
+          blinkMin = Math.min(blinkMin ?? ear, ear);
+        } else if (blinkMin !== null && ear > openEar * BLINK_OPEN_RATIO) {
+          blinkMinima.push(blinkMin);
+          blinkMin = null;
+          lastBlinkAt = now;
+        }
+      } else if (step === "closed" && elapsed >= cfg.settleMs) {
+        closedSamples.push(ear);
+      }
+    }
+
+    if (step === "open" && elapsed >= cfg.openMs) {
+      openEar = percentile(openSamples.map((s) => s.ear), 50);
+      // Without an open level the blink step cannot run; score what there is.
+      if (openEar === null) finished = scoreCalibration();
+      else nextStep(now);
+    } else if (step === "blinks") {
+      // Leave a moment after the last blink so the next step's prompt is not missed.
+      const allSeen = blinkMinima.length >= cfg.blinkCount && lastBlinkAt !== null && now - lastBlinkAt >= 500;
+      if (allSeen || elapsed >= cfg.blinkTimeoutMs) nextStep(now);
+    } else if (step === "closed" && elapsed >= cfg.closedMs) {
+      nextStep(now);
+    }
+
+    return progress(now, faceUsable);
+  }
+
+  function processLandmarks(t: number, landmarks: Point[] | null, aspect = 1) {
+    if (!landmarks) return processFrame({ t, left: null, right: null });
+    const { left, right } = eyeAspectRatios(landmarks);
+    return processFrame({ t, left, right, pose: estimateHeadPose(landmarks, aspect) });
+  }
+
+  // Starts at 100 and deducts for an unsteady open level, missing face frames,
+  // missed blinks, weak open/closed contrast and a large left/right mismatch.
+  // A re-check keeps the reference's closed level and thresholds, and deducts
+  // for drift of the open level instead of for blinks.
+  function scoreCalibration(): CalibrationResult {
+    const ref = cfg.reference;
+    const issues: CalibrationIssue[] = [];
+    const faceCoverage = frames > 0 ? usableFrames / frames : 0;
+
+    const open = openEar ?? 0;
+    // Frames well below the median are blinks or squints, not the open level.
+    const steady = openSamples.filter((s) => s.ear >= open * 0.85);
+    const openVariation = open > 0 ? (stdDev(steady.map((s) => s.ear)) ?? 0) / open : 1;
+    const leftOpenEar = percentile(steady.map((s) => s.left), 50);
+    const rightOpenEar = percentile(steady.map((s) => s.right), 50);
+
+    const closedFromStep = percentile(closedSamples, 50);
+    const closedEar = ref
+      ? open * (ref.closedEar / ref.openEar)
+      : (closedFromStep ?? percentile(blinkMinima, 50) ?? open);
+    const contrast = open > 0 ? Math.max(0, (open - closedEar) / open) : 0;
+
+    if (openEar === null || steady.length === 0) {
+      issues.push({ blocking: true, message: "No face was seen while your eyes were open. Check the camera view." });
+    }
+    if (faceCoverage < MIN_FACE_COVERAGE) {
+      issues.push({
+        blocking: true,
+        message: `Your face was usable in only ${Math.round(faceCoverage * 100)}% of frames. Face the camera and keep your head within view.`,
+      });
+    }
+    if (openVariation > MAX_OPEN_VARIATION) {
+      issues.push({
+        blocking: true,
+        message: "Your open-eye level kept changing. Hold still and avoid squinting or blinking during the first step.",
+      });
+    }
+    if (openSamples.length > 0 && steady.length < openSamples.length * 0.8) {
+      issues.push({
+        blocking: false,
+        message: "You blinked or squinted often while holding your eyes open.",
+      });
+    }
+    const mismatch = ref && open > 0 ? describeProfileMismatch(ref, open) : null;
+    if (mismatch) issues.push({ blocking: true, message: `${mismatch} Run a full calibration.` });
+    if (!ref && blinkMinima.length < cfg.blinkCount) {
+      issues.push({
+        blocking: true,
+        message: `Only ${blinkMinima.length} of ${cfg.blinkCount} blinks were detected. Blink slowly and close your eyes fully.`,
+      });
+    }
+    if (closedFromStep !== null && closedFromStep > open * 0.8) {
+      issues.push({
+        blocking: true,
+        message: "Your eyes did not look closed during the eyes-closed step.",
+      });
+    }
+    if (contrast < MIN_CONTRAST) {
+      issues.push({
+        blocking: true,
+        message: "Open and closed eyes look too similar. Improve the lighting or move closer to the camera.",
+      });
+    }
+
+    const eyeImbalance =
+      leftOpenEar !== null && rightOpenEar !== null && open > 0 ? Math.abs(leftOpenEar - rightOpenEar) / open : 0;
+    if (eyeImbalance > 0.25) {
+      issues.push({
+        blocking: false,
+        message: "One eye reads much smaller than the other; side lighting or a turned head can cause this.",
+      });
+    }
+
+    const variationPenalty = Math.min(30, Math.max(0, (openVariation - 0.04) / 0.11) * 30);
+    const coveragePenalty = Math.min(30, (1 - faceCoverage) * 100);
+    const stepPenalty = ref
+      ? Math.min(30, (Math.abs(open / ref.openEar - 1) / PROFILE_MISMATCH_RATIO) * 30)
+      : Math.max(0, cfg.blinkCount - blinkMinima.length) * 15;
+    const contrastPenalty = Math.min(25, Math.max(0, (0.5 - contrast) / 0.25) * 25);
+    const imbalancePenalty = eyeImbalance > 0.25 ? 10 : 0;
+    const quality = Math.round(
+      Math.max(0, 100 - variationPenalty - coveragePenalty - stepPenalty - contrastPenalty - imbalancePenalty),
+    );
+
+    if (quality < MIN_QUALITY && !issues.some((i) => i.blocking)) {
+      issues.push({ blocking: true, message: `Overall quality ${quality}/100 is too low to rely on.` });
+    }
+
+    const at = (fraction: number) => (open > 0 ? (closedEar + (open - closedEar) * fraction) / open : 0);
+    const closeRatio = ref?.closeRatio ?? Math.min(0.75, Math.max(0.45, at(CLOSE_FRACTION)));
+    const openRatio = ref?.openRatio ?? Math.min(0.92, Math.max(closeRatio + 0.1, at(OPEN_FRACTION)));
+    const partialRatio =
+      ref?.partialRatio ?? Math.min(openRatio - 0.03, Math.max(closeRatio + 0.05, at(PARTIAL_FRACTION)));
+
+    return {
+      openEar: open,
+      leftOpenEar: leftOpenEar ?? open,
+      rightOpenEar: rightOpenEar ?? open,
+      closedEar,
+      closeRatio,
+      openRatio,
+      partialRatio,
+      quality,
+      reliable: !issues.some((i) => i.blocking),
+      issues,
+      faceCoverage,
+      openVariation,
+      blinksDetected: ref ? ref.blinksDetected : blinkMinima.length,
+      contrast,
+    };
+  }
+
+  return { processFrame, processLandmarks, result: () => finished };
+}
+
+export function calibrationSteps(closedStep: boolean, recheck: boolean) {
+  if (recheck) return CALIBRATION_STEPS.filter((s) => s.id === "open");
+  return CALIBRATION_STEPS.filter((s) => s.id !== "closed" || closedStep);
+}
+
+// Null while the live open-eye level is within PROFILE_MISMATCH_RATIO of the
+// saved one, else a sentence saying how far it has moved.
+export function describeProfileMismatch(reference: CalibrationResult, liveOpenEar: number) {
+  const change = liveOpenEar / reference.openEar - 1;
+  if (Math.abs(change) <= PROFILE_MISMATCH_RATIO) return null;
+  return `Your open-eye level is ${Math.round(Math.abs(change) * 100)}% ${change > 0 ? "higher" : "lower"} than in the saved calibration.`;
+}
+
+export function describeCalibrationQuality(quality: number) {
+  return quality >= 80 ? "good" : quality >= 65 ? "fair" : "poor";
+}
+
@@ -0,0 +1,150 @@
+import type { CalibrationIssue, CalibrationResult } from "./calibration";
+import type { CameraInfo } from "./camera";
+
+// Named calibrations ("with glasses", "at desk") saved in localStorage so a
+// session can start from one instead of recalibrating from scratch.
+
+export type CalibrationProfile = {
+  id: string;
+  name: string;
+  createdAt: number;
+  // Camera the calibration was captured on, when the browser reported it.
+  camera: CameraInfo | null;
+  calibration: CalibrationResult;
+};
+
+const PROFILES_KEY = "calibrationProfiles";
+const ACTIVE_PROFILE_KEY = "calibrationProfileId";
+
+type Obj = Record<string, unknown>;
+
+function fail(path: string, problem: string): never {
+  throw new Error(`${path} ${problem}.`);
+}
+
+function obj(value: unknown, path: string): Obj {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) fail(path, "must be an object");
+  return value as Obj;
+}
+
+function num(value: unknown, path: string) {
+  if (typeof value !== "number" || !Number.isFinite(value)) fail(path, "must be a number");
+  return value;
+}
+
+function positive(value: unknown, path: string) {
+  const n = num(value, path);
+  if (n <= 0) fail(path, "must be greater than 0");
+  return n;
+}
+
+function text(value: unknown, path: string) {
+  if (typeof value !== "string" || value.trim() === "") fail(path, "must be a non-empty string");
+  return value;
+}
+
+export function parseCalibrationResult(value: unknown, path: string): CalibrationResult {
+  const c = obj(value, path);
+  const issues = c.issues ?? [];
+  if (!Array.isArray(issues)) fail(`${path}.issues`, "must be a list");
+
+  return {
+    openEar: positive(c.openEar, `${path}.openEar`),
+    leftOpenEar: positive(c.leftOpenEar, `${path}.leftOpenEar`),
+    rightOpenEar: positive(c.rightOpenEar, `${path}.rightOpenEar`),
+    closedEar: num(c.closedEar, `${path}.closedEar`),
+    closeRatio: positive(c.closeRatio, `${path}.closeRatio`),
+    openRatio: positive(c.openRatio, `${path}.openRatio`),
+    partialRatio: positive(c.partialRatio, `${path}.partialRatio`),
+    quality: num(c.quality, `${path}.quality`),
+    reliable: c.reliable === true,
+    issues: issues.map((v, i): CalibrationIssue => {
+      const issue = obj(v, `${path}.issues[${i}]`);
+      return { blocking: issue.blocking === true, message: text(issue.message, `${path}.issues[${i}].message`) };
+    }),
+    faceCoverage: num(c.faceCoverage, `${path}.faceCoverage`),
+    openVariation: num(c.openVariation, `${path}.openVariation`),
+    blinksDetected: num(c.blinksDetected, `${path}.blinksDetected`),
+    contrast: num(c.contrast, `${path}.contrast`),
+  };
+}
+
+export function parseCalibrationProfile(value: unknown): CalibrationProfile {
+  const p = obj(value, "profile");
+  let camera: CameraInfo | null = null;
+  if (p.camera !== null && p.camera !== undefined) {
+    const c = obj(p.camera, "camera");
+    camera = { deviceId: text(c.deviceId, "camera.deviceId"), label: typeof c.label === "string" ? c.label : "" };
+  }
+
+  return {
+    id: text(p.id, "id"),
+    name: text(p.name, "name"),
+    createdAt: num(p.createdAt, "createdAt"),
+    camera,
+    calibration: parseCalibrationResult(p.calibration, "calibration"),
+  };
+}
+
+export function createCalibrationProfile(
+  name: string,
+  calibration: CalibrationResult,
+  camera: CameraInfo | null,
+): CalibrationProfile {
+  return {
+    id: `calibration-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    createdAt: Date.now(),
+    camera,
+    calibration,
+  };
+}
+
+// Invalid stored entries are dropped.
+export function loadCalibrationProfiles(): CalibrationProfile[] {
+  const profiles: CalibrationProfile[] = [];
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : [];
+    if (Array.isArray(data)) {
+      for (const p of data) {
+        try {
+          profiles.push(parseCalibrationProfile(p));
+        } catch {}
+      }
+    }
+  } catch {}
+  return profiles;
+}
+
+export function saveCalibrationProfiles(profiles: CalibrationProfile[]) {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  } catch {}
+}
+
+// An empty id means "calibrate at the start of the session".
+export function loadActiveCalibrationProfileId() {
+  try {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function saveActiveCalibrationProfileId(id: string) {
+  try {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  } catch {}
+}
+
+export function findCalibrationProfile(profiles: CalibrationProfile[], id: string) {
+  return profiles.find((p) => p.id === id) ?? null;
+}
+
+// Null when the profile was captured on this camera (or either side is unknown).
+export function describeCameraMismatch(profile: CalibrationProfile, camera: CameraInfo | null) {
+  if (!profile.camera || !camera || profile.camera.deviceId === camera.deviceId) return null;
+  const saved = profile.camera.label || "another camera";
+  return `“${profile.name}” was calibrated on ${saved}, not ${camera.label || "the current camera"}; its thresholds may not fit.`;
+}
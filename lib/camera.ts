@@ -0,0 +1,104 @@
+// Camera selection: which device to open and at what resolution and frame
+// rate. Settings are remembered in localStorage; a device that has gone away
+// falls back to the browser's default camera.
+
+export type CameraResolution = "default" | "480p" | "720p" | "1080p";
+
+export type CameraSettings = {
+  // Empty for the browser's default camera.
+  deviceId: string;
+  resolution: CameraResolution;
+  // Target frames per second, 0 for the camera's default.
+  frameRate: number;
+};
+
+// The device a stream is actually using, as reported by its video track.
+export type CameraInfo = { deviceId: string; label: string };
+
+export const CAMERA_RESOLUTIONS: { id: CameraResolution; label: string; width?: number; height?: number }[] = [
+  { id: "default", label: "Default resolution" },
+  { id: "480p", label: "640 × 480", width: 640, height: 480 },
+  { id: "720p", label: "1280 × 720", width: 1280, height: 720 },
+  { id: "1080p", label: "1920 × 1080", width: 1920, height: 1080 },
+];
+
+export const CAMERA_FRAME_RATES = [0, 15, 24, 30, 60];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = { deviceId: "", resolution: "default", frameRate: 0 };
+
+const SETTINGS_KEY = "cameraSettings";
+
+export function parseCameraSettings(value: unknown): CameraSettings {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("Camera settings must be an object.");
+  }
+  const v = value as Record<string, unknown>;
+  const resolution = CAMERA_RESOLUTIONS.find((r) => r.id === v.resolution)?.id ?? "default";
+  const frameRate = typeof v.frameRate === "number" && CAMERA_FRAME_RATES.includes(v.frameRate) ? v.frameRate : 0;
+  return { deviceId: typeof v.deviceId === "string" ? v.deviceId : "", resolution, frameRate };
+}
+
+export function loadCameraSettings(): CameraSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (raw) return parseCameraSettings(JSON.parse(raw));
+  } catch {}
+  return DEFAULT_CAMERA_SETTINGS;
+}
+
+export function saveCameraSettings(settings: CameraSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {}
+}
+
+export function cameraConstraints(settings: CameraSettings): MediaTrackConstraints {
+  const constraints: MediaTrackConstraints = {};
+  if (settings.deviceId) constraints.deviceId = { exact: settings.deviceId };
+  const size = CAMERA_RESOLUTIONS.find((r) => r.id === settings.resolution);
+  if (size?.width && size.height) {
+    constraints.width = { ideal: size.width };
+    constraints.height = { ideal: size.height };
+  }
+  if (settings.frameRate > 0) constraints.frameRate = { ideal: settings.frameRate };
+  return constraints;
+}
+
+// Video inputs. Some browsers hide device ids and labels until the page has
+// camera permission; such entries are left out.
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((d) => d.kind === "videoinput" && d.deviceId !== "");
+}
+
+// Opens the chosen camera. When that device is no longer available the
+// default camera is opened instead, and `fellBack` says so.
+export async function openCamera(settings: CameraSettings) {
+  try {
+    const stream = await navigator.mediaDevices.getUserMedia({ video: cameraConstraints(settings) });
+    return { stream, fellBack: false };
+  } catch (e: unknown) {
+    const missing = e instanceof DOMException && (e.name === "NotFoundError" || e.name === "OverconstrainedError");
+    if (!settings.deviceId || !missing) throw e;
+    const fallback = cameraConstraints({ ...settings, deviceId: "" });
+    return { stream: await navigator.mediaDevices.getUserMedia({ video: fallback }), fellBack: true };
+  }
+}
+
+export function cameraFromStream(stream: MediaStream): CameraInfo | null {
+  const track = stream.getVideoTracks()[0];
+  const deviceId = track?.getSettings().deviceId;
+  return track && deviceId ? { deviceId, label: track.label } : null;
+}
+
+export function streamFrameRate(stream: MediaStream) {
+  return stream.getVideoTracks()[0]?.getSettings().frameRate ?? null;
+}
+
+// What the camera actually delivers, e.g. "1280×720 @ 30 fps".
+export function describeStream(stream: MediaStream) {
+  const s = stream.getVideoTracks()[0]?.getSettings();
+  if (!s?.width || !s.height) return "";
+  return `${s.width}×${s.height}${s.frameRate ? ` @ ${Math.round(s.frameRate)} fps` : ""}`;
+}
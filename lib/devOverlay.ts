@@ -0,0 +1,183 @@
+import { formatPercentChange } from "./format";
+import type { HeadPose } from "./headPose";
+import { dist, eyeEar, LEFT_EYE, RIGHT_EYE, type EyeIndices, type Point } from "./eyeGeometry";
+
+export type DevMetrics = {
+  leftEAR: number;
+  rightEAR: number;
+  avgEAR: number;
+  leftV1: number;
+  leftV2: number;
+  rightV1: number;
+  rightV2: number;
+  leftH: number;
+  rightH: number;
+  leftOpenAvg: number;
+  rightOpenAvg: number;
+  baselineEar: number | null;
+  calibratedBaselineEar: number | null;
+  headPose: HeadPose | null;
+};
+
+export const EMPTY_DEV_METRICS: DevMetrics = {
+  leftEAR: 0,
+  rightEAR: 0,
+  avgEAR: 0,
+  leftV1: 0,
+  leftV2: 0,
+  rightV1: 0,
+  rightV2: 0,
+  leftH: 0,
+  rightH: 0,
+  leftOpenAvg: 0,
+  rightOpenAvg: 0,
+  baselineEar: null,
+  calibratedBaselineEar: null,
+  headPose: null,
+};
+
+type EyePx = { p1: Point; p2: Point; p3: Point; p4: Point; p5: Point; p6: Point; mid1: Point; mid2: Point };
+
+export type EyeOverlay = { metrics: DevMetrics; left: EyePx; right: EyePx };
+
+function eyeToPx(lm: Point[], eye: EyeIndices, width: number, height: number): EyePx {
+  const toPx = (p: Point) => ({ x: p.x * width, y: p.y * height });
+  const p1 = toPx(lm[eye.p1]);
+  const p2 = toPx(lm[eye.p2]);
+  const p3 = toPx(lm[eye.p3]);
+  const p4 = toPx(lm[eye.p4]);
+  const p5 = toPx(lm[eye.p5]);
+  const p6 = toPx(lm[eye.p6]);
+
+  return {
+    p1,
+    p2,
+    p3,
+    p4,
+    p5,
+    p6,
+    mid1: { x: (p2.x + p6.x) / 2, y: (p2.y + p6.y) / 2 },
+    mid2: { x: (p3.x + p5.x) / 2, y: (p3.y + p5.y) / 2 },
+  };
+}
+
+export function computeEyeOverlay(lm: Point[], width: number, height: number): EyeOverlay {
+  const left = eyeToPx(lm, LEFT_EYE, width, height);
+  const right = eyeToPx(lm, RIGHT_EYE, width, height);
+
+  const leftEAR = eyeEar(lm, LEFT_EYE);
+  const rightEAR = eyeEar(lm, RIGHT_EYE);
+
+  const leftV1 = dist(left.p2, left.p6);
+  const leftV2 = dist(left.p3, left.p5);
+  const rightV1 = dist(right.p2, right.p6);
+  const rightV2 = dist(right.p3, right.p5);
+
+  return {
+    left,
+    right,
+    metrics: {
+      leftEAR,
+      rightEAR,
+      avgEAR: (leftEAR + rightEAR) / 2,
+      leftV1,
+      leftV2,
+      rightV1,
+      rightV2,
+      leftH: dist(left.p1, left.p4),
+      rightH: dist(right.p1, right.p4),
+      leftOpenAvg: (leftV1 + leftV2) / 2,
+      rightOpenAvg: (rightV1 + rightV2) / 2,
+      baselineEar: null,
+      calibratedBaselineEar: null,
+      headPose: null,
+    },
+  };
+}
+
+export function describeBaseline(baselineEar: number | null, calibratedBaselineEar: number | null) {
+  if (baselineEar === null || calibratedBaselineEar === null) return "Baseline: calibrating…";
+  const drift = formatPercentChange((baselineEar / calibratedBaselineEar - 1) * 100);
+  return `Baseline: ${baselineEar.toFixed(3)} (calibrated ${calibratedBaselineEar.toFixed(3)}, ${drift})`;
+}
+
+function drawPoint(ctx: CanvasRenderingContext2D, x: number, y: number, r = 3) {
+  ctx.beginPath();
+  ctx.arc(x, y, r, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+function drawLine(ctx: CanvasRenderingContext2D, x1: number, y1: number, x2: number, y2: number) {
+  ctx.beginPath();
+  ctx.moveTo(x1, y1);
+  ctx.lineTo(x2, y2);
+  ctx.stroke();
+}
+
+function drawMeasurementLabel(ctx: CanvasRenderingContext2D, x: number, y: number, text: string) {
+  ctx.font = "12px Arial";
+  const textWidth = ctx.measureText(text).width;
+  const padX = 6;
+  const boxW = textWidth + padX * 2;
+  const boxH = 18;
+
+  ctx.fillStyle = "#00ff88";
+  ctx.fillRect(x - 4, y - 16, boxW, boxH);
+
+  ctx.fillStyle = "#000";
+  ctx.fillText(text, x + padX - 4, y - 3);
+}
+
+// Extra lines of text are drawn under the standard EAR readout.
+export function drawDevOverlay(octx: CanvasRenderingContext2D, overlay: EyeOverlay, extraLines: string[] = []) {
+  const { left: l, right: r, metrics: m } = overlay;
+
+  octx.clearRect(0, 0, octx.canvas.width, octx.canvas.height);
+
+  octx.lineWidth = 2;
+  octx.fillStyle = "#00ff88";
+  octx.strokeStyle = "#00ff88";
+
+  [l.p1, l.p2, l.p3, l.p4, l.p5, l.p6, r.p1, r.p2, r.p3, r.p4, r.p5, r.p6].forEach((p) => {
+    drawPoint(octx, p.x, p.y, 4);
+  });
+
+  octx.strokeStyle = "#00bfff";
+  drawLine(octx, l.p1.x, l.p1.y, l.p4.x, l.p4.y);
+  drawLine(octx, l.p2.x, l.p2.y, l.p6.x, l.p6.y);
+  drawLine(octx, l.p3.x, l.p3.y, l.p5.x, l.p5.y);
+
+  drawLine(octx, r.p1.x, r.p1.y, r.p4.x, r.p4.y);
+  drawLine(octx, r.p2.x, r.p2.y, r.p6.x, r.p6.y);
+  drawLine(octx, r.p3.x, r.p3.y, r.p5.x, r.p5.y);
+
+  // Small green eyelid opening indicators
+  octx.strokeStyle = "#00ff88";
+  octx.lineWidth = 3;
+
+  drawLine(octx, l.mid1.x - 14, l.mid1.y, l.mid1.x - 14, l.mid1.y - m.leftV1);
+  drawLine(octx, l.mid2.x - 20, l.mid2.y, l.mid2.x - 20, l.mid2.y - m.leftV2);
+
+  drawLine(octx, r.mid1.x + 14, r.mid1.y, r.mid1.x + 14, r.mid1.y - m.rightV1);
+  drawLine(octx, r.mid2.x + 20, r.mid2.y, r.mid2.x + 20, r.mid2.y - m.rightV2);
+
+  // Labels near each eye opening measurement
+  drawMeasurementLabel(octx, l.mid1.x - 68, l.mid1.y - 6, `${m.leftV1.toFixed(1)} px`);
+  drawMeasurementLabel(octx, l.mid2.x - 74, l.mid2.y + 18, `${m.leftV2.toFixed(1)} px`);
+
+  drawMeasurementLabel(octx, r.mid1.x + 18, r.mid1.y - 6, `${m.rightV1.toFixed(1)} px`);
+  drawMeasurementLabel(octx, r.mid2.x + 24, r.mid2.y + 18, `${m.rightV2.toFixed(1)} px`);
+
+  // Summary text
+  octx.fillStyle = "#ffffff";
+  octx.font = "16px Arial";
+  const lines = [
+    `Left EAR: ${m.leftEAR.toFixed(3)}`,
+    `Right EAR: ${m.rightEAR.toFixed(3)}`,
+    `Avg EAR: ${m.avgEAR.toFixed(3)}`,
+    `Eye Open L: ${m.leftOpenAvg.toFixed(1)} px`,
+    `Eye Open R: ${m.rightOpenAvg.toFixed(1)} px`,
+    ...extraLines,
+  ];
+  lines.forEach((text, i) => octx.fillText(text, 16, 28 + i * 22));
+}
@@ -0,0 +1,217 @@
+import type { BlinkEngineEvent } from "./blinkEngine";
+import { blinkDurationMs, type SessionSummary } from "./session";
+
+// Public event interface for other tools (widgets, smart lights, loggers).
+// Every event is wrapped in a versioned envelope and delivered through the
+// transports enabled in the settings. See "Event API" in the README.
+
+export const EVENT_API_SOURCE = "blink-monitor";
+export const EVENT_API_VERSION = 1;
+export const EVENT_CHANNEL_NAME = "blink-monitor-events";
+
+export type BlinkMonitorEvent =
+  | { type: "calibrated"; baselineEar: number }
+  | { type: "blink"; count: number; durationMs: number; closureDepth: number }
+  | { type: "alertStart"; count: number }
+  | { type: "alertEnd" }
+  | { type: "faceLost"; reason: "noFace" | "headPose" }
+  | { type: "faceFound" }
+  | { type: "sessionSummary"; summary: SessionSummary }
+  // Sent by the "Send test event" button in the settings.
+  | { type: "test" };
+
+export type EventEnvelope = {
+  source: typeof EVENT_API_SOURCE;
+  version: typeof EVENT_API_VERSION;
+  sessionId: string;
+  // Milliseconds since the session started, and the wall-clock send time.
+  sessionMs: number;
+  sentAt: string;
+  event: BlinkMonitorEvent;
+};
+
+export type EventApiSettings = {
+  // Empty to disable the webhook.
+  webhookUrl: string;
+  broadcastChannel: boolean;
+  postMessage: boolean;
+  // Target origin for window.postMessage to the embedding page. Empty means the
+  // embedding page's own origin; "*" (any origin) must be chosen explicitly.
+  postMessageOrigin: string;
+};
+
+export const DEFAULT_EVENT_API_SETTINGS: EventApiSettings = {
+  webhookUrl: "",
+  broadcastChannel: false,
+  postMessage: false,
+  postMessageOrigin: "",
+};
+
+const SETTINGS_KEY = "eventApi";
+// Browsers cap keepalive request bodies at 64 KB.
+const KEEPALIVE_MAX_CHARS = 60000;
+
+export function parseEventApiSettings(value: unknown): EventApiSettings {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("Event API settings must be an object.");
+  }
+  const v = value as Record<string, unknown>;
+
+  const webhookUrl = typeof v.webhookUrl === "string" ? v.webhookUrl.trim() : "";
+  if (webhookUrl !== "") {
+    let url: URL;
+    try {
+      url = new URL(webhookUrl);
+    } catch {
+      throw new Error("Webhook URL is not a valid URL.");
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error("Webhook URL must start with http:// or https://.");
+    }
+  }
+
+  let postMessageOrigin = typeof v.postMessageOrigin === "string" ? v.postMessageOrigin.trim() : "";
+  if (postMessageOrigin !== "" && postMessageOrigin !== "*") {
+    let origin: string;
+    try {
+      origin = new URL(postMessageOrigin).origin;
+    } catch {
+      origin = "null";
+    }
+    if (origin === "null") {
+      throw new Error('postMessage origin must be empty, "*" or an origin such as https://example.com.');
+    }
+    postMessageOrigin = origin;
+  }
+
+  return {
+    webhookUrl,
+    broadcastChannel: v.broadcastChannel === true,
+    postMessage: v.postMessage === true,
+    postMessageOrigin,
+  };
+}
+
+// The origin of the page embedding this one, or null when the browser does not
+// reveal it (a "no-referrer" policy on the embedding page, for example).
+function embeddingOrigin() {
+  const ancestor = window.location.ancestorOrigins?.[0];
+  if (ancestor && ancestor !== "null") return ancestor;
+  try {
+    const origin = new URL(document.referrer).origin;
+    return origin === "null" ? null : origin;
+  } catch {
+    return null;
+  }
+}
+
+export function loadEventApiSettings(): EventApiSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (raw) return parseEventApiSettings(JSON.parse(raw));
+  } catch {}
+  return DEFAULT_EVENT_API_SETTINGS;
+}
+
+export function saveEventApiSettings(settings: EventApiSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {}
+}
+
+// Maps engine events onto the public interface; internal-only events give null.
+export function toPublicEvent(ev: BlinkEngineEvent): BlinkMonitorEvent | null {
+  switch (ev.type) {
+    case "calibrated":
+      return { type: "calibrated", baselineEar: ev.baselineEar };
+    case "blink":
+      return {
+        type: "blink",
+        count: ev.count,
+        durationMs: blinkDurationMs(ev.blink),
+        closureDepth: ev.blink.closureDepth,
+      };
+    case "alertStart":
+      return { type: "alertStart", count: ev.count };
+    case "alertEnd":
+      return { type: "alertEnd" };
+    case "faceLost":
+      return { type: "faceLost", reason: ev.reason };
+    case "faceFound":
+      return { type: "faceFound" };
+    default:
+      return null;
+  }
+}
+
+export type EventPublisher = {
+  publish: (event: BlinkMonitorEvent, sessionMs: number) => void;
+  dispose: () => void;
+};
+
+// The webhook is sent as a CORS "simple" request (text/plain body, no-cors
+// mode) so a plain local server receives it without answering a preflight;
+// the response is opaque, so only network failures are reported.
+export function createEventPublisher(
+  settings: EventApiSettings,
+  sessionId: string,
+  onError: (message: string) => void = () => {},
+): EventPublisher {
+  let channel: BroadcastChannel | null = null;
+  if (settings.broadcastChannel && typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(EVENT_CHANNEL_NAME);
+  }
+
+  let postMessageOrigin: string | null = null;
+  if (settings.postMessage && window.parent !== window) {
+    postMessageOrigin = settings.postMessageOrigin || embeddingOrigin();
+    if (!postMessageOrigin) {
+      onError("postMessage is off: the embedding page's origin is unknown. Set a target origin in the settings.");
+    }
+  }
+
+  function publish(event: BlinkMonitorEvent, sessionMs: number) {
+    const envelope: EventEnvelope = {
+      source: EVENT_API_SOURCE,
+      version: EVENT_API_VERSION,
+      sessionId,
+      sessionMs: Math.round(sessionMs),
+      sentAt: new Date().toISOString(),
+      event,
+    };
+
+    if (settings.webhookUrl) {
+      const body = JSON.stringify(envelope);
+      fetch(settings.webhookUrl, {
+        method: "POST",
+        mode: "no-cors",
+        headers: { "Content-Type": "text/plain;charset=UTF-8" },
+        body,
+        keepalive: body.length <= KEEPALIVE_MAX_CHARS,
+      }).catch((e: unknown) => {
+        onError(`Webhook delivery failed: ${e instanceof Error ? e.message : String(e)}`);
+      });
+    }
+
+    if (channel) {
+      try {
+        channel.postMessage(envelope);
+      } catch {}
+    }
+
+    if (postMessageOrigin) {
+      try {
+        window.parent.postMessage(envelope, postMessageOrigin);
+      } catch (e: unknown) {
+        onError(`postMessage failed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+  }
+
+  function dispose() {
+    channel?.close();
+    channel = null;
+  }
+
+  return { publish, dispose };
+}
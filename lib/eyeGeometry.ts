@@ -0,0 +1,25 @@
+export type Point = { x: number; y: number; z?: number };
+
+// Face Mesh landmark indices for the six-point eye aspect ratio (EAR) contour.
+export const LEFT_EYE = { p1: 33, p2: 160, p3: 159, p4: 133, p5: 145, p6: 144 };
+export const RIGHT_EYE = { p1: 362, p2: 387, p3: 386, p4: 263, p5: 374, p6: 373 };
+
+export type EyeIndices = typeof LEFT_EYE;
+
+export function dist(a: Point, b: Point) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+export function ear(p1: Point, p2: Point, p3: Point, p4: Point, p5: Point, p6: Point) {
+  const denom = 2 * dist(p1, p4);
+  if (denom <= 1e-6) return 0;
+  return (dist(p2, p6) + dist(p3, p5)) / denom;
+}
+
+export function eyeEar(lm: Point[], eye: EyeIndices) {
+  return ear(lm[eye.p1], lm[eye.p2], lm[eye.p3], lm[eye.p4], lm[eye.p5], lm[eye.p6]);
+}
+
+export function eyeAspectRatios(lm: Point[]) {
+  return { left: eyeEar(lm, LEFT_EYE), right: eyeEar(lm, RIGHT_EYE) };
+}
@@ -0,0 +1,25 @@
+export function formatDuration(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return [h, m, s].map((n) => String(n).padStart(2, "0")).join(":");
+}
+
+export function formatSecondsMs(ms: number | null) {
+  if (ms === null) return "N/A";
+  return `${(ms / 1000).toFixed(2)}s`;
+}
+
+export function formatDateTime(epochMs: number) {
+  return new Date(epochMs).toLocaleString();
+}
+
+export function formatPercentChange(percent: number) {
+  return `${percent >= 0 ? "+" : ""}${percent.toFixed(1)}%`;
+}
+
+export function formatMs(ms: number | null) {
+  if (ms === null) return "N/A";
+  return `${Math.round(ms)} ms`;
+}
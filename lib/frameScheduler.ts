@@ -0,0 +1,74 @@
+type FrameCallback = () => void;
+
+export type FrameScheduler = {
+  request: (cb: FrameCallback) => void;
+  setBackgroundEnabled: (enabled: boolean) => void;
+  dispose: () => void;
+};
+
+// Dedicated workers are not throttled like requestAnimationFrame in hidden tabs,
+// so a tiny inline worker acts as the clock while the page is in the background.
+const TICKER_SOURCE = `
+let timer = null;
+onmessage = (e) => {
+  if (timer !== null) clearInterval(timer);
+  timer = e.data > 0 ? setInterval(() => postMessage(0), e.data) : null;
+};
+`;
+
+function createTickerWorker(intervalMs: number, onTick: () => void) {
+  if (typeof Worker === "undefined") return null;
+
+  try {
+    const url = URL.createObjectURL(new Blob([TICKER_SOURCE], { type: "text/javascript" }));
+    const worker = new Worker(url);
+    URL.revokeObjectURL(url);
+    worker.onmessage = onTick;
+    worker.postMessage(intervalMs);
+    return worker;
+  } catch {
+    return null;
+  }
+}
+
+export function createFrameScheduler(backgroundIntervalMs: number): FrameScheduler {
+  let pending: FrameCallback | null = null;
+  let rafId: number | null = null;
+  let worker: Worker | null = null;
+
+  function fire() {
+    if (rafId !== null) cancelAnimationFrame(rafId);
+    rafId = null;
+
+    const cb = pending;
+    pending = null;
+    cb?.();
+  }
+
+  function onTick() {
+    if (document.hidden && pending) fire();
+  }
+
+  function setBackgroundEnabled(enabled: boolean) {
+    if (enabled && !worker) {
+      worker = createTickerWorker(backgroundIntervalMs, onTick);
+    } else if (!enabled && worker) {
+      worker.terminate();
+      worker = null;
+    }
+  }
+
+  function request(cb: FrameCallback) {
+    pending = cb;
+    if (rafId === null) rafId = requestAnimationFrame(fire);
+  }
+
+  function dispose() {
+    if (rafId !== null) cancelAnimationFrame(rafId);
+    rafId = null;
+    pending = null;
+    setBackgroundEnabled(false);
+  }
+
+  return { request, setBackgroundEnabled, dispose };
+}
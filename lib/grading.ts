@@ -0,0 +1,283 @@
+import type { SessionSummary } from "./session";
+
+export type GradeInput = {
+  visibleMs: number;
+  totalMs: number;
+  bpm: number;
+  blinks: number;
+  incompleteBlinks: number;
+  alerts: number;
+  longestNoBlinkMs: number;
+  riskyVisibleMs: number;
+  blinkIntegralMs: number;
+  averageBlinkSpacingMs: number | null;
+  blinkSpacingStdMs: number | null;
+  meanBlinkDurationMs: number | null;
+  slowBlinkFraction: number | null;
+};
+
+// A penalty applies when the value is strictly above (or below) the cutoff.
+// Within a list only the most severe matching band counts.
+export type UpperBand = { above: number; penalty: number; reason: string };
+export type LowerBand = { below: number; penalty: number; reason: string };
+
+// Bands are inclusive ranges tried in order after the ideal range; values
+// outside every band get the outside penalty.
+export type RangeBand = { min: number; max: number; penalty: number; reason: string };
+
+export type GradingRules = {
+  minVisibleMinutes: number;
+  sessionLengthMinutes: LowerBand[];
+  blinkRate: {
+    idealMin: number;
+    idealMax: number;
+    bands: RangeBand[];
+    outsidePenalty: number;
+    outsideReason: string;
+  };
+  incompleteRatio: UpperBand[];
+  alerts: UpperBand[];
+  longestNoBlinkSec: UpperBand[];
+  visibilityPercent: LowerBand[];
+  compliancePercent: LowerBand[];
+  blinkIntegralPerMinuteMs: LowerBand[];
+  averageSpacingSec: { above: UpperBand[]; below: LowerBand[] };
+  spacingCv: UpperBand[];
+  slowBlinkFraction: UpperBand[];
+  // Minimum score per letter, best first; anything lower gets `failingGrade`.
+  letterGrades: { letter: string; minScore: number }[];
+  failingGrade: string;
+  perfectReason: string;
+};
+
+export const SCORING_METRICS = [
+  "sessionLength",
+  "blinkRate",
+  "incompleteRatio",
+  "alerts",
+  "longestNoBlink",
+  "visibility",
+  "compliance",
+  "blinkIntegral",
+  "blinkSpacing",
+  "spacingConsistency",
+  "slowBlinks",
+] as const;
+
+export type ScoringMetric = (typeof SCORING_METRICS)[number];
+
+// One evaluated rule: the measured value in the rule's own unit (minutes,
+// blinks/min, ratio, seconds, percent, ms per minute), the band it fell into
+// (null when no penalty applied) and the points deducted.
+export type ScoringFactor = {
+  metric: ScoringMetric;
+  value: number;
+  band: string | null;
+  points: number;
+  reason: string | null;
+};
+
+export type GradingProfile = {
+  id: string;
+  name: string;
+  rules: GradingRules;
+};
+
+export const DEFAULT_GRADING_PROFILE: GradingProfile = {
+  id: "default",
+  name: "Default",
+  rules: {
+    minVisibleMinutes: 0.5,
+    sessionLengthMinutes: [{ below: 1, penalty: 10, reason: "limited session length" }],
+    blinkRate: {
+      idealMin: 15,
+      idealMax: 25,
+      bands: [
+        { min: 10, max: 30, penalty: 10, reason: "blink rate slightly outside target range" },
+        { min: 7, max: 35, penalty: 20, reason: "blink rate outside healthy target range" },
+      ],
+      outsidePenalty: 35,
+      outsideReason: "blink rate far from target range",
+    },
+    incompleteRatio: [
+      { above: 0.4, penalty: 12, reason: "many incomplete blinks" },
+      { above: 0.2, penalty: 6, reason: "some incomplete blinks" },
+    ],
+    alerts: [
+      { above: 5, penalty: 30, reason: "frequent no-blink alerts" },
+      { above: 2, penalty: 18, reason: "multiple no-blink alerts" },
+      { above: 0, penalty: 8, reason: "a few no-blink alerts" },
+    ],
+    longestNoBlinkSec: [
+      { above: 20, penalty: 25, reason: "very long no-blink streak" },
+      { above: 15, penalty: 15, reason: "long no-blink streak" },
+      { above: 10, penalty: 8, reason: "one longer no-blink streak" },
+    ],
+    visibilityPercent: [
+      { below: 60, penalty: 20, reason: "face not visible for much of session" },
+      { below: 80, penalty: 8, reason: "face visibility could be more consistent" },
+    ],
+    compliancePercent: [
+      { below: 70, penalty: 18, reason: "too much time spent above the no-blink threshold" },
+      { below: 85, penalty: 8, reason: "some extended no-blink periods" },
+    ],
+    blinkIntegralPerMinuteMs: [
+      { below: 1200, penalty: 15, reason: "low blink integral" },
+      { below: 1800, penalty: 8, reason: "blink integral slightly low" },
+    ],
+    averageSpacingSec: {
+      above: [{ above: 8, penalty: 12, reason: "blinks are spaced too far apart" }],
+      below: [{ below: 2, penalty: 8, reason: "blinks are unusually clustered" }],
+    },
+    spacingCv: [
+      { above: 1.1, penalty: 10, reason: "blink spacing is highly inconsistent" },
+      { above: 0.8, penalty: 5, reason: "blink spacing is somewhat inconsistent" },
+    ],
+    slowBlinkFraction: [
+      { above: 0.3, penalty: 8, reason: "many slow blinks" },
+      { above: 0.15, penalty: 4, reason: "some slow blinks" },
+    ],
+    letterGrades: [
+      { letter: "A", minScore: 90 },
+      { letter: "B", minScore: 80 },
+      { letter: "C", minScore: 70 },
+      { letter: "D", minScore: 60 },
+    ],
+    failingGrade: "F",
+    perfectReason: "steady blinking, good face visibility, good blink spacing, and no alert issues",
+  },
+};
+
+type BandMatch = { band: string; penalty: number; reason: string };
+
+function matchUpper(value: number, bands: UpperBand[]): BandMatch | null {
+  const hit = [...bands].sort((a, b) => b.above - a.above).find((b) => value > b.above);
+  return hit ? { band: `> ${hit.above}`, penalty: hit.penalty, reason: hit.reason } : null;
+}
+
+function matchLower(value: number, bands: LowerBand[]): BandMatch | null {
+  const hit = [...bands].sort((a, b) => a.below - b.below).find((b) => value < b.below);
+  return hit ? { band: `< ${hit.below}`, penalty: hit.penalty, reason: hit.reason } : null;
+}
+
+function matchRate(bpm: number, rate: GradingRules["blinkRate"]): BandMatch | null {
+  if (bpm >= rate.idealMin && bpm <= rate.idealMax) return null;
+  const hit = rate.bands.find((b) => bpm >= b.min && bpm <= b.max);
+  if (hit) return { band: `${hit.min}–${hit.max}`, penalty: hit.penalty, reason: hit.reason };
+  return { band: "outside all bands", penalty: rate.outsidePenalty, reason: rate.outsideReason };
+}
+
+export function gradeSession(args: GradeInput, profile: GradingProfile = DEFAULT_GRADING_PROFILE) {
+  const {
+    visibleMs,
+    totalMs,
+    bpm,
+    blinks,
+    incompleteBlinks,
+    alerts,
+    longestNoBlinkMs,
+    riskyVisibleMs,
+    blinkIntegralMs,
+    averageBlinkSpacingMs,
+    blinkSpacingStdMs,
+    slowBlinkFraction,
+  } = args;
+  const rules = profile.rules;
+
+  const visibilityPercent = totalMs > 0 ? (visibleMs / totalMs) * 100 : 0;
+  const blinkCompliancePercent = visibleMs > 0 ? ((visibleMs - riskyVisibleMs) / visibleMs) * 100 : 0;
+  const visibleMinutes = visibleMs / 60000;
+  const blinkIntegralPerMinute = visibleMinutes > 0 ? blinkIntegralMs / visibleMinutes : 0;
+
+  if (visibleMinutes < rules.minVisibleMinutes) {
+    return {
+      score: null,
+      grade: "N/A",
+      gradeReason: "could not determine grade because visible session time was too short",
+      factors: [] as ScoringFactor[],
+      visibilityPercent,
+      blinkCompliancePercent,
+    };
+  }
+
+  const blinkAttempts = blinks + incompleteBlinks;
+  const incompleteRatio = blinkAttempts > 0 ? incompleteBlinks / blinkAttempts : 0;
+  const spacingCv =
+    blinkSpacingStdMs !== null && averageBlinkSpacingMs !== null && averageBlinkSpacingMs > 0
+      ? blinkSpacingStdMs / averageBlinkSpacingMs
+      : null;
+  const avgSpacingSec = averageBlinkSpacingMs === null ? null : averageBlinkSpacingMs / 1000;
+
+  // Same order as the reasons are listed in the grade explanation. Metrics
+  // that cannot be measured (e.g. spacing with fewer than two blinks) are skipped.
+  const evaluated: [ScoringMetric, number | null, (v: number) => BandMatch | null][] = [
+    ["sessionLength", visibleMinutes, (v) => matchLower(v, rules.sessionLengthMinutes)],
+    ["blinkRate", bpm, (v) => matchRate(v, rules.blinkRate)],
+    ["incompleteRatio", incompleteRatio, (v) => matchUpper(v, rules.incompleteRatio)],
+    ["alerts", alerts, (v) => matchUpper(v, rules.alerts)],
+    ["longestNoBlink", longestNoBlinkMs / 1000, (v) => matchUpper(v, rules.longestNoBlinkSec)],
+    ["visibility", visibilityPercent, (v) => matchLower(v, rules.visibilityPercent)],
+    ["compliance", blinkCompliancePercent, (v) => matchLower(v, rules.compliancePercent)],
+    ["blinkIntegral", blinkIntegralPerMinute, (v) => matchLower(v, rules.blinkIntegralPerMinuteMs)],
+    [
+      "blinkSpacing",
+      avgSpacingSec,
+      (v) => matchUpper(v, rules.averageSpacingSec.above) ?? matchLower(v, rules.averageSpacingSec.below),
+    ],
+    ["spacingConsistency", spacingCv, (v) => matchUpper(v, rules.spacingCv)],
+    ["slowBlinks", slowBlinkFraction, (v) => matchUpper(v, rules.slowBlinkFraction)],
+  ];
+
+  const factors: ScoringFactor[] = [];
+  for (const [metric, value, match] of evaluated) {
+    if (value === null) continue;
+    const m = match(value);
+    const points = m ? m.penalty : 0;
+    factors.push({ metric, value, band: m ? m.band : null, points, reason: m && points > 0 ? m.reason : null });
+  }
+
+  let score = 100;
+  const reasons: string[] = [];
+  for (const f of factors) {
+    if (f.points === 0 || f.reason === null) continue;
+    score -= f.points;
+    reasons.push(f.reason);
+  }
+
+  score = Math.max(0, Math.min(100, Math.round(score)));
+
+  const grade =
+    [...rules.letterGrades].sort((a, b) => b.minScore - a.minScore).find((g) => score >= g.minScore)?.letter ??
+    rules.failingGrade;
+
+  const gradeReason = reasons.length > 0 ? reasons.join(", ") : rules.perfectReason;
+
+  return {
+    score,
+    grade,
+    gradeReason,
+    factors,
+    visibilityPercent,
+    blinkCompliancePercent,
+  };
+}
+
+// Rebuilds the grading input from a stored summary so past sessions can be
+// graded again under a different profile.
+export function gradeInputFromSummary(summary: SessionSummary): GradeInput {
+  return {
+    visibleMs: summary.totalVisibleTimeMs,
+    totalMs: summary.totalSessionTimeMs,
+    bpm: summary.averageBlinksPerMinute,
+    blinks: summary.totalBlinks,
+    incompleteBlinks: summary.incompleteBlinks,
+    alerts: summary.totalAlerts,
+    longestNoBlinkMs: summary.longestNoBlinkMs,
+    riskyVisibleMs: summary.totalVisibleTimeMs * (1 - summary.blinkCompliancePercent / 100),
+    blinkIntegralMs: summary.blinkIntegralMs,
+    averageBlinkSpacingMs: summary.averageBlinkSpacingMs,
+    blinkSpacingStdMs: summary.blinkSpacingStdMs,
+    meanBlinkDurationMs: summary.meanBlinkDurationMs,
+    slowBlinkFraction: summary.slowBlinkFraction,
+  };
+}
@@ -0,0 +1,197 @@
+import {
+  DEFAULT_GRADING_PROFILE,
+  gradeInputFromSummary,
+  gradeSession,
+  type GradingProfile,
+  type GradingRules,
+  type LowerBand,
+  type RangeBand,
+  type UpperBand,
+} from "./grading";
+import type { StoredSession } from "./session";
+
+const PROFILES_KEY = "gradingProfiles";
+const ACTIVE_PROFILE_KEY = "gradingProfileId";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// Each check throws with the path of the offending field, so the editor can
+// point at the problem.
+function fail(path: string, problem: string): never {
+  throw new Error(`${path} ${problem}.`);
+}
+
+function num(value: unknown, path: string) {
+  if (!isNumber(value)) fail(path, "must be a number");
+  return value;
+}
+
+function penalty(value: unknown, path: string) {
+  const n = num(value, path);
+  if (n < 0 || n > 100) fail(path, "must be between 0 and 100");
+  return n;
+}
+
+function text(value: unknown, path: string) {
+  if (typeof value !== "string" || value.trim() === "") fail(path, "must be a non-empty string");
+  return value;
+}
+
+function list<T>(value: unknown, path: string, item: (v: Record<string, unknown>, p: string) => T) {
+  if (!Array.isArray(value)) fail(path, "must be a list");
+  return value.map((v, i) => {
+    const p = `${path}[${i}]`;
+    if (!isRecord(v)) fail(p, "must be an object");
+    return item(v, p);
+  });
+}
+
+const upperBands = (value: unknown, path: string) =>
+  list<UpperBand>(value, path, (b, p) => ({
+    above: num(b.above, `${p}.above`),
+    penalty: penalty(b.penalty, `${p}.penalty`),
+    reason: text(b.reason, `${p}.reason`),
+  }));
+
+const lowerBands = (value: unknown, path: string) =>
+  list<LowerBand>(value, path, (b, p) => ({
+    below: num(b.below, `${p}.below`),
+    penalty: penalty(b.penalty, `${p}.penalty`),
+    reason: text(b.reason, `${p}.reason`),
+  }));
+
+const rangeBands = (value: unknown, path: string) =>
+  list<RangeBand>(value, path, (b, p) => {
+    const min = num(b.min, `${p}.min`);
+    const max = num(b.max, `${p}.max`);
+    if (min > max) fail(p, "must have min <= max");
+    return { min, max, penalty: penalty(b.penalty, `${p}.penalty`), reason: text(b.reason, `${p}.reason`) };
+  });
+
+export function parseGradingRules(value: unknown): GradingRules {
+  if (!isRecord(value)) fail("rules", "must be an object");
+  const r = value;
+
+  if (!isRecord(r.blinkRate)) fail("blinkRate", "must be an object");
+  const rate = r.blinkRate;
+  const idealMin = num(rate.idealMin, "blinkRate.idealMin");
+  const idealMax = num(rate.idealMax, "blinkRate.idealMax");
+  if (idealMin > idealMax) fail("blinkRate", "must have idealMin <= idealMax");
+
+  if (!isRecord(r.averageSpacingSec)) fail("averageSpacingSec", "must be an object");
+
+  const letterGrades = list(r.letterGrades, "letterGrades", (g, p) => {
+    const minScore = num(g.minScore, `${p}.minScore`);
+    if (minScore < 0 || minScore > 100) fail(`${p}.minScore`, "must be between 0 and 100");
+    return { letter: text(g.letter, `${p}.letter`), minScore };
+  });
+
+  const minVisibleMinutes = num(r.minVisibleMinutes, "minVisibleMinutes");
+  if (minVisibleMinutes < 0) fail("minVisibleMinutes", "must not be negative");
+
+  return {
+    minVisibleMinutes,
+    sessionLengthMinutes: lowerBands(r.sessionLengthMinutes, "sessionLengthMinutes"),
+    blinkRate: {
+      idealMin,
+      idealMax,
+      bands: rangeBands(rate.bands, "blinkRate.bands"),
+      outsidePenalty: penalty(rate.outsidePenalty, "blinkRate.outsidePenalty"),
+      outsideReason: text(rate.outsideReason, "blinkRate.outsideReason"),
+    },
+    incompleteRatio: upperBands(r.incompleteRatio, "incompleteRatio"),
+    alerts: upperBands(r.alerts, "alerts"),
+    longestNoBlinkSec: upperBands(r.longestNoBlinkSec, "longestNoBlinkSec"),
+    visibilityPercent: lowerBands(r.visibilityPercent, "visibilityPercent"),
+    compliancePercent: lowerBands(r.compliancePercent, "compliancePercent"),
+    blinkIntegralPerMinuteMs: lowerBands(r.blinkIntegralPerMinuteMs, "blinkIntegralPerMinuteMs"),
+    averageSpacingSec: {
+      above: upperBands(r.averageSpacingSec.above, "averageSpacingSec.above"),
+      below: lowerBands(r.averageSpacingSec.below, "averageSpacingSec.below"),
+    },
+    spacingCv: upperBands(r.spacingCv, "spacingCv"),
+    slowBlinkFraction: upperBands(r.slowBlinkFraction, "slowBlinkFraction"),
+    letterGrades,
+    failingGrade: text(r.failingGrade, "failingGrade"),
+    perfectReason: text(r.perfectReason, "perfectReason"),
+  };
+}
+
+export function parseGradingProfile(value: unknown): GradingProfile {
+  if (!isRecord(value)) fail("profile", "must be an object");
+  return {
+    id: text(value.id, "id"),
+    name: text(value.name, "name"),
+    rules: parseGradingRules(value.rules),
+  };
+}
+
+export function createProfileId() {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// The built-in default is always first and cannot be edited or removed; custom
+// profiles live in localStorage. Invalid stored entries are dropped.
+export function loadGradingProfiles(): GradingProfile[] {
+  const custom: GradingProfile[] = [];
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : [];
+    if (Array.isArray(data)) {
+      for (const p of data) {
+        try {
+          const profile = parseGradingProfile(p);
+          if (profile.id !== DEFAULT_GRADING_PROFILE.id) custom.push(profile);
+        } catch {}
+      }
+    }
+  } catch {}
+  return [DEFAULT_GRADING_PROFILE, ...custom];
+}
+
+export function saveGradingProfiles(profiles: GradingProfile[]) {
+  const custom = profiles.filter((p) => p.id !== DEFAULT_GRADING_PROFILE.id);
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(custom));
+  } catch {}
+}
+
+export function loadActiveProfileId() {
+  try {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY) ?? DEFAULT_GRADING_PROFILE.id;
+  } catch {
+    return DEFAULT_GRADING_PROFILE.id;
+  }
+}
+
+export function saveActiveProfileId(id: string) {
+  try {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  } catch {}
+}
+
+export function findProfile(profiles: GradingProfile[], id: string) {
+  return profiles.find((p) => p.id === id) ?? DEFAULT_GRADING_PROFILE;
+}
+
+export function regradeSession(session: StoredSession, profile: GradingProfile): StoredSession {
+  const grading = gradeSession(gradeInputFromSummary(session.summary), profile);
+  return {
+    ...session,
+    summary: {
+      ...session.summary,
+      score: grading.score,
+      grade: grading.grade,
+      gradeReason: grading.gradeReason,
+      scoreFactors: grading.factors,
+      gradingProfileId: profile.id,
+      gradingProfileName: profile.name,
+    },
+  };
+}
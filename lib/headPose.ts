@@ -0,0 +1,61 @@
+import type { Point } from "./eyeGeometry";
+
+// Degrees. Yaw is positive when the face turns toward the right of the image,
+// pitch is positive when it tilts up, roll is the in-plane tilt of the eye line.
+export type HeadPose = { yawDeg: number; pitchDeg: number; rollDeg: number };
+
+// Outer eye corners plus forehead and chin span the face in both directions.
+const LEFT_EYE_OUTER = 33;
+const RIGHT_EYE_OUTER = 263;
+const FOREHEAD = 10;
+const CHIN = 152;
+
+// Landmarks the pose estimate reads.
+export const HEAD_POSE_LANDMARKS = [LEFT_EYE_OUTER, RIGHT_EYE_OUTER, FOREHEAD, CHIN];
+
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+// Estimates pose from the face plane spanned by the eye line and the
+// forehead-chin line. Face Mesh normalizes x and y by the frame width and
+// height separately (z shares x's scale), so `aspect` (width / height) puts the
+// axes back on one scale. Returns null when the landmarks carry no depth.
+export function estimateHeadPose(lm: Point[], aspect = 1): HeadPose | null {
+  const pts = [lm[LEFT_EYE_OUTER], lm[RIGHT_EYE_OUTER], lm[FOREHEAD], lm[CHIN]];
+  if (pts.some((p) => !p || typeof p.z !== "number")) return null;
+
+  const [l, r, top, bottom] = pts.map((p) => ({ x: p.x * aspect, y: p.y, z: (p.z ?? 0) * aspect }));
+
+  const across = { x: r.x - l.x, y: r.y - l.y, z: r.z - l.z };
+  const down = { x: bottom.x - top.x, y: bottom.y - top.y, z: bottom.z - top.z };
+
+  // across × down points away from the camera (+z); flip it to get the facing direction.
+  const facing = {
+    x: -(across.y * down.z - across.z * down.y),
+    y: -(across.z * down.x - across.x * down.z),
+    z: -(across.x * down.y - across.y * down.x),
+  };
+
+  return {
+    yawDeg: toDeg(Math.atan2(facing.x, -facing.z)),
+    pitchDeg: toDeg(Math.atan2(-facing.y, Math.hypot(facing.x, facing.z))),
+    rollDeg: toDeg(Math.atan2(across.y, across.x)),
+  };
+}
+
+// Turning the head foreshortens eye width by cos(yaw) and eyelid height by
+// cos(pitch); undo both so EAR stays comparable to the frontal baseline.
+export function compensateEar(earValue: number, pose: HeadPose) {
+  const cosYaw = Math.cos((pose.yawDeg * Math.PI) / 180);
+  const cosPitch = Math.cos((pose.pitchDeg * Math.PI) / 180);
+  if (cosPitch <= 1e-3) return earValue;
+  return (earValue * cosYaw) / cosPitch;
+}
+
+export function isPoseWithinLimits(pose: HeadPose, maxYawDeg: number, maxPitchDeg: number) {
+  return Math.abs(pose.yawDeg) <= maxYawDeg && Math.abs(pose.pitchDeg) <= maxPitchDeg;
+}
+
+export function formatPose(pose: HeadPose | null) {
+  if (!pose) return "n/a";
+  return `yaw ${pose.yawDeg.toFixed(1)}°, pitch ${pose.pitchDeg.toFixed(1)}°, roll ${pose.rollDeg.toFixed(1)}°`;
+}
@@ -0,0 +1,235 @@
+import type { FaceMesh, Results } from "@mediapipe/face_mesh";
+import { LEFT_EYE, RIGHT_EYE, type Point } from "./eyeGeometry";
+import { HEAD_POSE_LANDMARKS } from "./headPose";
+import {
+  describeFaceMeshLoadFailure,
+  faceMeshAssetUrl,
+  FACE_MESH_BASE_PATH,
+  FACE_MESH_SCRIPT,
+} from "./mediapipeAssets";
+
+// Face Mesh inference behind one interface. Where the browser supports
+// OffscreenCanvas it runs in public/face-mesh-worker.js and frames are handed
+// over as ImageBitmaps; otherwise it runs on the main thread. Either way the
+// result is a sparse landmark array that only has TRACKED_LANDMARKS set, which
+// is all the EAR, head pose, overlay and recording code reads.
+
+declare global {
+  interface Window {
+    // Set by the Face Mesh script loaded from public/.
+    FaceMesh?: typeof FaceMesh;
+  }
+}
+
+export type LandmarkDetector = {
+  // Landmarks of the face in the current video frame, null without a face (or
+  // once the detector has been closed).
+  detect: (video: HTMLVideoElement) => Promise<Point[] | null>;
+  inWorker: boolean;
+  close: () => void;
+};
+
+export const TRACKED_LANDMARKS = [
+  ...new Set([...Object.values(LEFT_EYE), ...Object.values(RIGHT_EYE), ...HEAD_POSE_LANDMARKS]),
+];
+
+const WORKER_URL = "/face-mesh-worker.js";
+// A worker that has not loaded Face Mesh by then is given up on, so a stuck
+// worker falls back to the main thread instead of hanging the start.
+const WORKER_INIT_TIMEOUT_MS = 20000;
+// Likewise a frame without a reply by then fails detection and stops the worker.
+const WORKER_FRAME_TIMEOUT_MS = 10000;
+
+const FACE_MESH_OPTIONS = {
+  maxNumFaces: 1,
+  refineLandmarks: true,
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+};
+
+type WorkerReply =
+  | { type: "ready" }
+  | { type: "result"; points: Float32Array | null }
+  | { type: "error"; message: string };
+
+const loadedScripts = new Set<string>();
+
+function loadScriptOnce(src: string) {
+  return new Promise<void>((resolve, reject) => {
+    const existing = document.querySelector(`script[src="${src}"]`) as HTMLScriptElement | null;
+    if (existing) {
+      if (loadedScripts.has(src)) return resolve();
+      existing.addEventListener("load", () => resolve(), { once: true });
+      existing.addEventListener("error", () => reject(new Error(`Failed to load ${src}`)), { once: true });
+      return;
+    }
+
+    const s = document.createElement("script");
+    s.src = src;
+    s.async = true;
+    s.onload = () => {
+      loadedScripts.add(src);
+      resolve();
+    };
+    s.onerror = () => reject(new Error(`Failed to load ${src}`));
+    document.head.appendChild(s);
+  });
+}
+
+function unpackLandmarks(points: Float32Array) {
+  const lm: Point[] = [];
+  TRACKED_LANDMARKS.forEach((idx, i) => {
+    const z = points[i * 3 + 2];
+    lm[idx] = { x: points[i * 3], y: points[i * 3 + 1], z: Number.isNaN(z) ? undefined : z };
+  });
+  return lm;
+}
+
+function keepTracked(lm: Point[]) {
+  const sparse: Point[] = [];
+  for (const idx of TRACKED_LANDMARKS) sparse[idx] = lm[idx];
+  return sparse;
+}
+
+function supportsLandmarkWorker() {
+  return (
+    typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined" && typeof createImageBitmap === "function"
+  );
+}
+
+function createWorkerDetector() {
+  const worker = new Worker(WORKER_URL);
+  let pending: { resolve: (lm: Point[] | null) => void; reject: (e: Error) => void } | null = null;
+  let closed = false;
+  // A worker error with no frame in flight fails the next detect call instead.
+  let failure: Error | null = null;
+
+  let frameTimer: ReturnType<typeof setTimeout> | undefined;
+
+  function settle(fn: (p: NonNullable<typeof pending>) => void) {
+    clearTimeout(frameTimer);
+    const p = pending;
+    pending = null;
+    if (p) fn(p);
+  }
+
+  async function detect(video: HTMLVideoElement) {
+    if (closed) return null;
+    if (failure) throw failure;
+    const bitmap = await createImageBitmap(video);
+    if (closed) {
+      bitmap.close();
+      return null;
+    }
+    return new Promise<Point[] | null>((resolve, reject) => {
+      pending = { resolve, reject };
+      worker.postMessage({ type: "frame", bitmap }, [bitmap]);
+      frameTimer = setTimeout(() => {
+        const err = new Error("The landmark worker stopped responding.");
+        failure = err;
+        worker.terminate();
+        settle((p) => p.reject(err));
+      }, WORKER_FRAME_TIMEOUT_MS);
+    });
+  }
+
+  function close() {
+    closed = true;
+    settle((p) => p.resolve(null));
+    worker.terminate();
+  }
+
+  const detector: LandmarkDetector = { detect, inWorker: true, close };
+
+  return new Promise<LandmarkDetector>((resolve, reject) => {
+    let ready = false;
+    const failed = (message: string) => {
+      if (ready) {
+        if (pending) return settle((p) => p.reject(new Error(message)));
+        failure = new Error(message);
+        return;
+      }
+      clearTimeout(initTimer);
+      worker.terminate();
+      reject(new Error(message));
+    };
+    const initTimer = setTimeout(() => failed("The landmark worker did not start in time."), WORKER_INIT_TIMEOUT_MS);
+
+    worker.onmessage = (e: MessageEvent<WorkerReply>) => {
+      const msg = e.data;
+      if (msg.type === "ready") {
+        clearTimeout(initTimer);
+        ready = true;
+        resolve(detector);
+      } else if (msg.type === "result") {
+        settle((p) => p.resolve(msg.points ? unpackLandmarks(msg.points) : null));
+      } else {
+        failed(msg.message);
+      }
+    };
+    worker.onerror = (e) => failed(e.message || "The landmark worker failed.");
+
+    worker.postMessage({
+      type: "init",
+      script: FACE_MESH_SCRIPT,
+      basePath: FACE_MESH_BASE_PATH,
+      indices: TRACKED_LANDMARKS,
+      options: FACE_MESH_OPTIONS,
+    });
+  });
+}
+
+export async function createMainThreadDetector(): Promise<LandmarkDetector> {
+  try {
+    await loadScriptOnce(FACE_MESH_SCRIPT);
+  } catch (e) {
+    throw new Error(await describeFaceMeshLoadFailure(e));
+  }
+
+  const FaceMesh = window.FaceMesh;
+  if (!FaceMesh) throw new Error(await describeFaceMeshLoadFailure(new Error("window.FaceMesh missing")));
+
+  const mesh = new FaceMesh({ locateFile: (f: string) => faceMeshAssetUrl(f) });
+  mesh.setOptions(FACE_MESH_OPTIONS);
+
+  let latest: Point[] | null = null;
+  mesh.onResults((res: Results) => {
+    latest = res.multiFaceLandmarks?.length ? keepTracked(res.multiFaceLandmarks[0] as Point[]) : null;
+  });
+
+  // Load the WASM runtime and model up front so a missing file is reported
+  // clearly instead of failing inside the first frame.
+  try {
+    await mesh.initialize();
+  } catch (e) {
+    throw new Error(await describeFaceMeshLoadFailure(e));
+  }
+
+  let closed = false;
+
+  // The video element is passed straight in; Face Mesh uploads it as a texture.
+  async function detect(video: HTMLVideoElement) {
+    if (closed) return null;
+    latest = null;
+    await mesh.send({ image: video });
+    return closed ? null : latest;
+  }
+
+  function close() {
+    closed = true;
+    mesh.close().catch(() => {});
+  }
+
+  return { detect, inWorker: false, close };
+}
+
+// Prefers the worker; if it cannot start (no WebGL in workers, for example) the
+// main-thread detector is used, which also reports missing assets clearly.
+export async function createLandmarkDetector(): Promise<LandmarkDetector> {
+  if (supportsLandmarkWorker()) {
+    try {
+      return await createWorkerDetector();
+    } catch {}
+  }
+  return createMainThreadDetector();
+}
@@ -0,0 +1,176 @@
+import {
+  createBlinkEngine,
+  DEFAULT_ENGINE_CONFIG,
+  type BlinkEngine,
+  type BlinkEngineConfig,
+  type BlinkEngineResult,
+} from "./blinkEngine";
+import { parseCalibrationResult } from "./calibrationProfiles";
+import { eyeAspectRatios, LEFT_EYE, RIGHT_EYE, type Point } from "./eyeGeometry";
+import { parseGradingProfile } from "./gradingProfiles";
+import type { HeadPose } from "./headPose";
+
+export const RECORDING_SCHEMA = "blink-monitor-recording";
+// Version 2 stores the engine config; version 1 recordings replay with the defaults.
+export const RECORDING_SCHEMA_VERSION = 2;
+
+// Landmark indices stored per frame, left eye p1..p6 then right eye p1..p6.
+const EYE_INDICES = [LEFT_EYE, RIGHT_EYE].flatMap((eye) => [eye.p1, eye.p2, eye.p3, eye.p4, eye.p5, eye.p6]);
+
+// `t` is milliseconds since the session started; `eyes` holds the normalized
+// x,y pairs of EYE_INDICES, or null when no face was found. `pose` is the head
+// pose estimated live (absent in recordings made before pose tracking).
+// `sourceFps` is set on the first frame processed after the camera's frame rate
+// became known or changed.
+export type RecordedFrame = { t: number; eyes: number[] | null; pose?: HeadPose | null; sourceFps?: number };
+
+// Settings the replay page lets the user change on top of the recorded config.
+export type ReplayOverrides = Partial<
+  Pick<BlinkEngineConfig, "closeRatio" | "openRatio" | "noBlinkThresholdSec" | "adaptiveBaseline">
+>;
+
+export type LandmarkRecording = {
+  schema: typeof RECORDING_SCHEMA;
+  version: typeof RECORDING_SCHEMA_VERSION;
+  recordedAt: string;
+  durationMs: number;
+  videoWidth: number;
+  videoHeight: number;
+  // Effective engine config of the session, including its guided calibration,
+  // so a replay reproduces the live summary.
+  engineConfig: BlinkEngineConfig;
+  frames: RecordedFrame[];
+};
+
+export function eyePointsFromLandmarks(lm: Point[]) {
+  return EYE_INDICES.flatMap((i) => [lm[i].x, lm[i].y]);
+}
+
+// Rebuilds a sparse landmark array that only has the eye points set, which is
+// all the EAR and overlay code reads.
+export function landmarksFromEyePoints(eyes: number[]) {
+  const lm: Point[] = [];
+  EYE_INDICES.forEach((idx, i) => {
+    lm[idx] = { x: eyes[i * 2], y: eyes[i * 2 + 1] };
+  });
+  return lm;
+}
+
+export function recordingToJson(recording: LandmarkRecording) {
+  return JSON.stringify(recording);
+}
+
+export function parseRecording(text: string): LandmarkRecording {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON.");
+  }
+
+  const rec = data as
+    | (Partial<Omit<LandmarkRecording, "version">> & { version?: unknown; noBlinkThresholdSec?: unknown })
+    | null;
+  if (!rec || rec.schema !== RECORDING_SCHEMA) {
+    throw new Error("File is not a Blink Monitor landmark recording.");
+  }
+  if (rec.version !== 1 && rec.version !== RECORDING_SCHEMA_VERSION) {
+    throw new Error(`Unsupported recording version ${String(rec.version)} (expected ${RECORDING_SCHEMA_VERSION}).`);
+  }
+  if (!Array.isArray(rec.frames) || typeof rec.durationMs !== "number") {
+    throw new Error("Recording is missing its frames or duration.");
+  }
+  const engineConfig =
+    rec.version === 1
+      ? parseEngineConfig({ noBlinkThresholdSec: rec.noBlinkThresholdSec })
+      : parseEngineConfig(rec.engineConfig);
+
+  const isPose = (p: HeadPose | null | undefined) =>
+    p === undefined || p === null || (typeof p.yawDeg === "number" && typeof p.pitchDeg === "number");
+
+  const isFrame = (f: RecordedFrame | undefined) =>
+    typeof f?.t === "number" &&
+    (f.eyes === null || (Array.isArray(f.eyes) && f.eyes.length === EYE_INDICES.length * 2)) &&
+    isPose(f.pose) &&
+    (f.sourceFps === undefined || (typeof f.sourceFps === "number" && f.sourceFps > 0));
+
+  const badFrame = rec.frames.findIndex((f) => !isFrame(f));
+  if (badFrame !== -1) {
+    throw new Error(`Frame #${badFrame + 1} in the recording is malformed.`);
+  }
+
+  return { ...(rec as LandmarkRecording), version: RECORDING_SCHEMA_VERSION, engineConfig };
+}
+
+// Settings added after a recording was made take their defaults; settings that
+// are present must have the default's type.
+function parseEngineConfig(value: unknown): BlinkEngineConfig {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("Recording has no engine config.");
+  }
+  const c = value as Record<string, unknown>;
+  if (typeof c.noBlinkThresholdSec !== "number") {
+    throw new Error("Recording engine config has no no-blink threshold.");
+  }
+  for (const [key, def] of Object.entries(DEFAULT_ENGINE_CONFIG)) {
+    if (key in c && (typeof def === "number" || typeof def === "boolean") && typeof c[key] !== typeof def) {
+      throw new Error(`Recording engine config field ${key} must be a ${typeof def}.`);
+    }
+  }
+
+  return {
+    ...DEFAULT_ENGINE_CONFIG,
+    ...(c as Partial<BlinkEngineConfig>),
+    noBlinkThresholdSec: c.noBlinkThresholdSec,
+    calibration:
+      c.calibration === undefined || c.calibration === null
+        ? null
+        : parseCalibrationResult(c.calibration, "engineConfig.calibration"),
+    gradingProfile:
+      c.gradingProfile === undefined ? DEFAULT_ENGINE_CONFIG.gradingProfile : parseGradingProfile(c.gradingProfile),
+  };
+}
+
+// The recorded config with the replay page's settings on top. A guided
+// calibration carries its own close/open ratios, which the engine prefers, so
+// overridden ratios are applied to it as well.
+export function replayConfig(recording: LandmarkRecording, overrides: ReplayOverrides = {}): BlinkEngineConfig {
+  const { calibration } = recording.engineConfig;
+  const { closeRatio, openRatio } = overrides;
+  return {
+    ...recording.engineConfig,
+    ...overrides,
+    calibration: calibration && {
+      ...calibration,
+      ...(closeRatio !== undefined && { closeRatio }),
+      ...(openRatio !== undefined && { openRatio }),
+    },
+  };
+}
+
+// Close/open ratios the recorded session actually used.
+export function recordedRatios(recording: LandmarkRecording) {
+  const { calibration, closeRatio, openRatio } = recording.engineConfig;
+  return calibration
+    ? { closeRatio: calibration.closeRatio, openRatio: calibration.openRatio }
+    : { closeRatio, openRatio };
+}
+
+export function feedRecordedFrame(engine: BlinkEngine, frame: RecordedFrame) {
+  if (frame.sourceFps !== undefined) engine.setSourceFps(frame.sourceFps);
+  if (!frame.eyes) return engine.processFrame({ t: frame.t, left: null, right: null });
+  const { left, right } = eyeAspectRatios(landmarksFromEyePoints(frame.eyes));
+  return engine.processFrame({ t: frame.t, left, right, pose: frame.pose ?? null });
+}
+
+// Runs every frame through a fresh engine with the recording's own timestamps
+// and config, which reproduces the live session summary unless overridden.
+export function replayRecording(recording: LandmarkRecording, overrides: ReplayOverrides = {}): BlinkEngineResult {
+  const engine = createBlinkEngine(replayConfig(recording, overrides), 0);
+
+  for (const frame of recording.frames) {
+    feedRecordedFrame(engine, frame);
+  }
+
+  return engine.finish(recording.durationMs);
+}
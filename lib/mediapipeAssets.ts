@@ -0,0 +1,42 @@
+import faceMeshAssets from "./faceMeshAssets.json";
+
+// The Face Mesh runtime is copied into public/ by scripts/copy-mediapipe-assets.mjs
+// and served by the app itself, so no CDN is needed (see public/sw.js for caching).
+export const FACE_MESH_BASE_PATH = "/mediapipe/face_mesh";
+export const FACE_MESH_SCRIPT = `${FACE_MESH_BASE_PATH}/face_mesh.js`;
+
+// Files the runtime loads; scripts/copy-mediapipe-assets.mjs reads the same
+// list to build the service worker's precache.
+export const FACE_MESH_ASSETS: string[] = faceMeshAssets;
+
+export function faceMeshAssetUrl(file: string) {
+  return `${FACE_MESH_BASE_PATH}/${file}`;
+}
+
+async function isAssetAvailable(file: string) {
+  try {
+    const res = await fetch(faceMeshAssetUrl(file));
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
+// Only used after loading failed, so the extra downloads are not paid on the happy path.
+export async function describeFaceMeshLoadFailure(cause: unknown) {
+  const availability = await Promise.all(FACE_MESH_ASSETS.map(isAssetAvailable));
+  const missing = FACE_MESH_ASSETS.filter((_, i) => !availability[i]);
+  const offline = typeof navigator !== "undefined" && !navigator.onLine;
+
+  if (missing.length > 0) {
+    return (
+      `Face Mesh assets are missing: ${missing.join(", ")}. ` +
+      (offline
+        ? "You are offline and these files were not cached yet — open the app once while online."
+        : `Expected them under ${FACE_MESH_BASE_PATH}/ (run "npm install" to copy them from @mediapipe/face_mesh).`)
+    );
+  }
+
+  const detail = cause instanceof Error ? cause.message : String(cause);
+  return `Face Mesh assets are present but failed to initialize: ${detail}`;
+}
@@ -0,0 +1,93 @@
+import type { StoredSession } from "./session";
+
+// Client side of the /api/sessions route handlers: uploads finished sessions
+// to a shared server (this app's own origin, or another machine running it).
+
+export type ServerSyncSettings = {
+  // Base URL of the server, e.g. http://lab-server:3000; empty for this origin.
+  serverUrl: string;
+  // Label stored with each upload so sessions from several machines can be told apart.
+  machine: string;
+  // Sent as a bearer token when the server sets BLINK_API_TOKEN.
+  token: string;
+  // Upload every session as soon as it is saved locally.
+  autoUpload: boolean;
+};
+
+export const DEFAULT_SERVER_SYNC_SETTINGS: ServerSyncSettings = {
+  serverUrl: "",
+  machine: "",
+  token: "",
+  autoUpload: false,
+};
+
+const SETTINGS_KEY = "serverSync";
+
+export function parseServerSyncSettings(value: unknown): ServerSyncSettings {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("Server sync settings must be an object.");
+  }
+  const v = value as Record<string, unknown>;
+
+  const serverUrl = typeof v.serverUrl === "string" ? v.serverUrl.trim().replace(/\/+$/, "") : "";
+  if (serverUrl !== "") {
+    let url: URL;
+    try {
+      url = new URL(serverUrl);
+    } catch {
+      throw new Error("Server URL is not a valid URL.");
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error("Server URL must start with http:// or https://.");
+    }
+  }
+
+  return {
+    serverUrl,
+    machine: typeof v.machine === "string" ? v.machine.trim().slice(0, 80) : "",
+    token: typeof v.token === "string" ? v.token.trim() : "",
+    autoUpload: v.autoUpload === true,
+  };
+}
+
+export function loadServerSyncSettings(): ServerSyncSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (raw) return parseServerSyncSettings(JSON.parse(raw));
+  } catch {}
+  return DEFAULT_SERVER_SYNC_SETTINGS;
+}
+
+export function saveServerSyncSettings(settings: ServerSyncSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {}
+}
+
+// Returns true when the server created the session, false when it replaced an
+// earlier upload with the same id. Throws with the server's message on failure.
+export async function uploadSession(settings: ServerSyncSettings, session: StoredSession) {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (settings.token) headers.Authorization = `Bearer ${settings.token}`;
+
+  let res: Response;
+  try {
+    res = await fetch(`${settings.serverUrl}/api/sessions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ machine: settings.machine || null, session }),
+    });
+  } catch (e: unknown) {
+    throw new Error(`Could not reach the server: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  if (!res.ok) {
+    let message = `Server answered ${res.status}.`;
+    try {
+      const body = (await res.json()) as { error?: unknown };
+      if (typeof body.error === "string") message = `Server answered ${res.status}: ${body.error}`;
+    } catch {}
+    throw new Error(message);
+  }
+  return res.status === 201;
+}
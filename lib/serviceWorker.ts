@@ -0,0 +1,8 @@
+export function registerServiceWorker() {
+  if (process.env.NODE_ENV !== "production") return;
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+
+  navigator.serviceWorker.register("/sw.js").catch(() => {
+    // offline support is optional; the app still works online without it
+  });
+}
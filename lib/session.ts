@@ -0,0 +1,219 @@
+import type { ScoringFactor } from "./grading";
+
+// Times are milliseconds since the session started; EAR values are the averaged
+// and per-eye minimums reached while the eyes were closed. Depth and asymmetry
+// are relative to the baseline EAR in effect at the time (0 = fully open / symmetric).
+// `startMs` is the first frame below the close threshold and `endMs` the frame
+// the eyes reopened; the blink phases split the full blink from the last fully
+// open frame onwards into closing, closed and reopening time.
+export type BlinkEvent = {
+  startMs: number;
+  endMs: number;
+  closingMs: number;
+  closedMs: number;
+  reopeningMs: number;
+  closedFrames: number;
+  minEar: number;
+  minLeftEar: number;
+  minRightEar: number;
+  closureDepth: number;
+  asymmetry: number;
+};
+
+// A closure of one eye while the other stayed open. Short ones are winks
+// (including unilateral blinks), longer ones are one-eye closures.
+export type UnilateralClosure = {
+  eye: "left" | "right";
+  kind: "wink" | "oneEyeClosure";
+  startMs: number;
+  endMs: number;
+};
+
+// A 20-20-20 break reminder: due after enough visible screen time, taken once
+// the face stays away (or turned away) for the break duration, missed if the
+// user keeps working past the grace period or skips it.
+export type BreakReminder = {
+  dueMs: number;
+  endMs: number;
+  taken: boolean;
+};
+
+// EAR values as the engine saw them, i.e. after head-pose compensation.
+export type EarSample = { t: number; left: number; right: number };
+
+export type FaceSegment = { startMs: number; endMs: number; visible: boolean };
+
+export type AlertPeriod = { startMs: number; endMs: number };
+
+// A gentle cue shown as the no-blink time approached the threshold; it either
+// cleared before the threshold or ran on into a hard alert.
+export type CuePeriod = { startMs: number; endMs: number; reachedThreshold: boolean };
+
+// Raw per-session streams kept next to the summary for export and later analysis.
+export type SessionTimeline = {
+  earSamples: EarSample[];
+  faceSegments: FaceSegment[];
+  alertPeriods: AlertPeriod[];
+  cuePeriods: CuePeriod[];
+};
+
+export type SessionSummary = {
+  totalBlinks: number;
+  incompleteBlinks: number;
+  totalVisibleTimeMs: number;
+  totalHiddenTimeMs: number;
+  // Part of the hidden time where a face was found but turned past the pose limits.
+  offPoseTimeMs: number;
+  totalSessionTimeMs: number;
+  averageBlinksPerMinute: number;
+
+  totalAlerts: number;
+  // Gentle cues are counted apart from alerts and do not affect grading.
+  totalCues: number;
+  cuesClearedBeforeAlert: number;
+  longestNoBlinkMs: number;
+  visibilityPercent: number;
+  blinkCompliancePercent: number;
+
+  blinkIntegralMs: number;
+  averageBlinkSpacingMs: number | null;
+  blinkSpacingStdMs: number | null;
+  blinkEvents: BlinkEvent[];
+
+  // Full blink duration statistics (null without blinks); slow blinks are
+  // longer than the engine's slow-blink limit.
+  meanBlinkDurationMs: number | null;
+  medianBlinkDurationMs: number | null;
+  p90BlinkDurationMs: number | null;
+  slowBlinkFraction: number | null;
+  meanClosingMs: number | null;
+  meanClosedMs: number | null;
+  meanReopeningMs: number | null;
+
+  // Per-eye analysis: closures counted by each eye's own state machine, so a
+  // normal blink counts once for each eye. The asymmetry index is
+  // (left - right) / (left + right), null without any closures.
+  leftEyeBlinks: number;
+  rightEyeBlinks: number;
+  winks: number;
+  oneEyeClosures: number;
+  blinkAsymmetryIndex: number | null;
+  unilateralClosures: UnilateralClosure[];
+
+  // Quality score (0-100) of the guided calibration, null when the passive
+  // calibration window was used.
+  calibrationQuality: number | null;
+
+  // Frame-rate statistics over frames with a usable face: frames the engine
+  // processed and the camera frames skipped in between, the average processing
+  // rate (null without any measured interval), and the visible time spent below
+  // the engine's reliable rate.
+  processedFrames: number;
+  droppedFrames: number;
+  averageFps: number | null;
+  lowFpsTimeMs: number;
+
+  // Adaptive baseline at the end of the session, and its drift relative to the
+  // calibrated baseline (signed percent; "max" is the largest excursion seen).
+  finalBaselineEar: number | null;
+  baselineDriftPercent: number | null;
+  maxBaselineDriftPercent: number | null;
+
+  // Break reminders that were resolved during the session (a reminder still open
+  // at the end is not counted). Compliance is taken / resolved, null without any.
+  // Self-initiated breaks are long enough look-aways before a reminder was due.
+  breakReminders: BreakReminder[];
+  breaksTaken: number;
+  breaksMissed: number;
+  breakCompliancePercent: number | null;
+  selfInitiatedBreaks: number;
+
+  score: number | null;
+  grade: string;
+  gradeReason: string;
+  scoreFactors: ScoringFactor[];
+  // Grading profile that produced the score (updated when a session is re-graded).
+  gradingProfileId: string;
+  gradingProfileName: string;
+};
+
+export type StoredSession = {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  noBlinkThreshold: number;
+  baselineEar: number | null;
+  summary: SessionSummary;
+  timeline: SessionTimeline;
+};
+
+// Sessions saved by older versions lack fields added since; fill them with neutral defaults.
+export function normalizeSession(session: StoredSession): StoredSession {
+  return {
+    ...session,
+    summary: {
+      ...session.summary,
+      incompleteBlinks: session.summary.incompleteBlinks ?? 0,
+      offPoseTimeMs: session.summary.offPoseTimeMs ?? 0,
+      totalCues: session.summary.totalCues ?? 0,
+      cuesClearedBeforeAlert: session.summary.cuesClearedBeforeAlert ?? 0,
+      // Blinks recorded before phase tracking count as closed for their whole span.
+      blinkEvents: (session.summary.blinkEvents ?? []).map((e) => ({
+        ...e,
+        closingMs: e.closingMs ?? 0,
+        closedMs: e.closedMs ?? e.endMs - e.startMs,
+        reopeningMs: e.reopeningMs ?? 0,
+        // Likewise blinks from before per-eye tracking count as symmetric.
+        minLeftEar: e.minLeftEar ?? e.minEar,
+        minRightEar: e.minRightEar ?? e.minEar,
+        asymmetry: e.asymmetry ?? 0,
+      })),
+      meanBlinkDurationMs: session.summary.meanBlinkDurationMs ?? null,
+      medianBlinkDurationMs: session.summary.medianBlinkDurationMs ?? null,
+      p90BlinkDurationMs: session.summary.p90BlinkDurationMs ?? null,
+      slowBlinkFraction: session.summary.slowBlinkFraction ?? null,
+      meanClosingMs: session.summary.meanClosingMs ?? null,
+      meanClosedMs: session.summary.meanClosedMs ?? null,
+      meanReopeningMs: session.summary.meanReopeningMs ?? null,
+      leftEyeBlinks: session.summary.leftEyeBlinks ?? 0,
+      rightEyeBlinks: session.summary.rightEyeBlinks ?? 0,
+      winks: session.summary.winks ?? 0,
+      oneEyeClosures: session.summary.oneEyeClosures ?? 0,
+      blinkAsymmetryIndex: session.summary.blinkAsymmetryIndex ?? null,
+      unilateralClosures: session.summary.unilateralClosures ?? [],
+      breakReminders: session.summary.breakReminders ?? [],
+      breaksTaken: session.summary.breaksTaken ?? 0,
+      breaksMissed: session.summary.breaksMissed ?? 0,
+      breakCompliancePercent: session.summary.breakCompliancePercent ?? null,
+      selfInitiatedBreaks: session.summary.selfInitiatedBreaks ?? 0,
+      scoreFactors: session.summary.scoreFactors ?? [],
+      gradingProfileId: session.summary.gradingProfileId ?? "default",
+      gradingProfileName: session.summary.gradingProfileName ?? "Default",
+      calibrationQuality: session.summary.calibrationQuality ?? null,
+      processedFrames: session.summary.processedFrames ?? 0,
+      droppedFrames: session.summary.droppedFrames ?? 0,
+      averageFps: session.summary.averageFps ?? null,
+      lowFpsTimeMs: session.summary.lowFpsTimeMs ?? 0,
+      finalBaselineEar: session.summary.finalBaselineEar ?? session.baselineEar,
+      baselineDriftPercent: session.summary.baselineDriftPercent ?? (session.baselineEar === null ? null : 0),
+      maxBaselineDriftPercent: session.summary.maxBaselineDriftPercent ?? (session.baselineEar === null ? null : 0),
+    },
+    timeline: {
+      earSamples: session.timeline?.earSamples ?? [],
+      faceSegments: session.timeline?.faceSegments ?? [],
+      alertPeriods: session.timeline?.alertPeriods ?? [],
+      cuePeriods: session.timeline?.cuePeriods ?? [],
+    },
+  };
+}
+
+export function blinkDurationMs(e: BlinkEvent) {
+  return e.closingMs + e.closedMs + e.reopeningMs;
+}
+
+export function createSessionId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
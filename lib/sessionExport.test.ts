@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { createBlinkEngine } from "./blinkEngine";
+import type { StoredSession } from "./session";
+import { parseSessionExport, sessionsToJson } from "./sessionExport";
+
+// A recorded session with blinks, a cue and an alert, plus a break reminder
+// and a score factor, so every list in the summary and timeline has entries.
+function recordSession(): StoredSession {
+  const engine = createBlinkEngine({ noBlinkThresholdSec: 5, cues: true }, 0);
+  for (let t = 0; t <= 20000; t += 33) {
+    const ear = t > 4000 && t % 4000 < 150 && t < 9000 ? 0.05 : 0.3;
+    engine.processFrame({ t, left: ear, right: ear });
+  }
+  const { summary, timeline, baselineEar } = engine.finish(20000);
+  summary.breakReminders = [{ dueMs: 8000, endMs: 12000, taken: true }];
+  summary.scoreFactors = [{ metric: "blinkRate", value: 4, band: "below 8/min", points: 10, reason: "Blink more." }];
+  return { id: "test-session", startedAt: 1000, endedAt: 21000, noBlinkThreshold: 5, baselineEar, summary, timeline };
+}
+
+type Json = Record<string, unknown>;
+
+// Sets (or with `undefined`, deletes) the field at a dotted path such as
+// "summary.blinkEvents.0.closingMs".
+function setPath(root: Json, path: string, value: unknown) {
+  const keys = path.split(".");
+  const last = keys.pop() as string;
+  const parent = keys.reduce((o, k) => o[k] as Json, root);
+  if (value === undefined) delete parent[last];
+  else parent[last] = value;
+}
+
+// Exports a copy of a recorded session with `edits` applied, then imports it again.
+function reimport(edits: [path: string, value: unknown][]) {
+  const session = structuredClone(recordSession()) as unknown as Json;
+  for (const [path, value] of edits) setPath(session, path, value);
+  return parseSessionExport(sessionsToJson([session as unknown as StoredSession]));
+}
+
+describe("parseSessionExport", () => {
+  it("imports an exported session unchanged", () => {
+    const session = recordSession();
+    expect(session.summary.blinkEvents.length).toBeGreaterThan(0);
+    expect(session.summary.breakReminders.length).toBeGreaterThan(0);
+    expect(session.summary.scoreFactors.length).toBeGreaterThan(0);
+    expect(session.timeline.cuePeriods.length).toBeGreaterThan(0);
+
+    expect(parseSessionExport(sessionsToJson([session]))).toEqual([session]);
+  });
+
+  it("fills in fields that older versions did not save", () => {
+    const phases = ["closingMs", "closedMs", "reopeningMs", "minLeftEar", "minRightEar", "asymmetry"];
+    const [session] = reimport([
+      ...phases.map((k): [string, unknown] => [`summary.blinkEvents.0.${k}`, undefined]),
+      ["summary.breakReminders", undefined],
+      ["timeline.cuePeriods", undefined],
+    ]);
+
+    const [blink] = session.summary.blinkEvents;
+    expect(blink.closedMs).toBe(blink.endMs - blink.startMs);
+    expect(blink.minLeftEar).toBe(blink.minEar);
+    expect(blink.asymmetry).toBe(0);
+    expect(session.summary.breakReminders).toEqual([]);
+    expect(session.timeline.cuePeriods).toEqual([]);
+  });
+
+  it.each([
+    ["a non-boolean break outcome", "summary.breakReminders.0.taken", "yes", "breakReminders[0].taken"],
+    ["a non-numeric blink phase", "summary.blinkEvents.0.closingMs", "80", "blinkEvents[0].closingMs"],
+    ["a null per-eye minimum", "summary.blinkEvents.1.minRightEar", null, "blinkEvents[1].minRightEar"],
+    ["a non-numeric asymmetry", "summary.blinkEvents.0.asymmetry", {}, "blinkEvents[0].asymmetry"],
+    ["an unknown score metric", "summary.scoreFactors.0.metric", "mood", "scoreFactors[0].metric"],
+    ["a non-string score band", "summary.scoreFactors.0.band", 3, "scoreFactors[0].band"],
+    ["a missing score reason", "summary.scoreFactors.0.reason", undefined, "scoreFactors[0].reason"],
+    ["a non-boolean cue outcome", "timeline.cuePeriods.0.reachedThreshold", 1, "cuePeriods[0].reachedThreshold"],
+    ["an unknown closure eye", "summary.unilateralClosures", [{ ...WINK, eye: "both" }], "unilateralClosures[0].eye"],
+    ["a non-list of blinks", "summary.blinkEvents", {}, "summary.blinkEvents must be a list"],
+    ["a bad session id", "id", "../etc", "session.id"],
+  ])("rejects %s", (_, path, value, problem) => {
+    expect(() => reimport([[path, value]])).toThrow(/^Session #1 in the export is malformed: /);
+    expect(() => reimport([[path, value]])).toThrow(problem);
+  });
+
+  it("rejects files that are not session exports", () => {
+    expect(() => parseSessionExport("{")).toThrow("File is not valid JSON.");
+    expect(() => parseSessionExport(JSON.stringify({ sessions: [] }))).toThrow(
+      "File is not a Blink Monitor session export.",
+    );
+  });
+});
+
+const WINK = { eye: "left", kind: "wink", startMs: 100, endMs: 200 };
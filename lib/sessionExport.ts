@@ -0,0 +1,203 @@
+import type { SessionSummary, StoredSession } from "./session";
+import { parseStoredSession } from "./sessionSchema";
+
+export const EXPORT_SCHEMA = "blink-monitor-sessions";
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export type SessionExport = {
+  schema: typeof EXPORT_SCHEMA;
+  version: typeof EXPORT_SCHEMA_VERSION;
+  exportedAt: string;
+  sessions: StoredSession[];
+};
+
+export function sessionsToJson(sessions: StoredSession[]) {
+  const payload: SessionExport = {
+    schema: EXPORT_SCHEMA,
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessions,
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function parseSessionExport(text: string) {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON.");
+  }
+
+  if (!isRecord(data) || data.schema !== EXPORT_SCHEMA) {
+    throw new Error("File is not a Blink Monitor session export.");
+  }
+  if (data.version !== EXPORT_SCHEMA_VERSION) {
+    throw new Error(`Unsupported export version ${String(data.version)} (expected ${EXPORT_SCHEMA_VERSION}).`);
+  }
+  if (!Array.isArray(data.sessions)) {
+    throw new Error("Export has no sessions list.");
+  }
+
+  return data.sessions.map((s, i) => {
+    try {
+      return parseStoredSession(s);
+    } catch (e: unknown) {
+      const detail = e instanceof Error ? e.message : String(e);
+      throw new Error(`Session #${i + 1} in the export is malformed: ${detail}`);
+    }
+  });
+}
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: unknown[][]) {
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+const SUMMARY_COLUMNS = [
+  "totalBlinks",
+  "incompleteBlinks",
+  "totalVisibleTimeMs",
+  "totalHiddenTimeMs",
+  "offPoseTimeMs",
+  "totalSessionTimeMs",
+  "averageBlinksPerMinute",
+  "totalAlerts",
+  "totalCues",
+  "cuesClearedBeforeAlert",
+  "longestNoBlinkMs",
+  "visibilityPercent",
+  "blinkCompliancePercent",
+  "blinkIntegralMs",
+  "averageBlinkSpacingMs",
+  "blinkSpacingStdMs",
+  "meanBlinkDurationMs",
+  "medianBlinkDurationMs",
+  "p90BlinkDurationMs",
+  "slowBlinkFraction",
+  "meanClosingMs",
+  "meanClosedMs",
+  "meanReopeningMs",
+  "leftEyeBlinks",
+  "rightEyeBlinks",
+  "winks",
+  "oneEyeClosures",
+  "blinkAsymmetryIndex",
+  "calibrationQuality",
+  "processedFrames",
+  "droppedFrames",
+  "averageFps",
+  "lowFpsTimeMs",
+  "finalBaselineEar",
+  "baselineDriftPercent",
+  "maxBaselineDriftPercent",
+  "breaksTaken",
+  "breaksMissed",
+  "breakCompliancePercent",
+  "selfInitiatedBreaks",
+  "score",
+  "grade",
+  "gradeReason",
+  "gradingProfileId",
+  "gradingProfileName",
+] as const satisfies readonly (keyof SessionSummary)[];
+
+export function summariesToCsv(sessions: StoredSession[]) {
+  const header = ["id", "startedAt", "endedAt", "noBlinkThreshold", "baselineEar", ...SUMMARY_COLUMNS];
+  const rows = sessions.map((s) => [
+    s.id,
+    new Date(s.startedAt).toISOString(),
+    new Date(s.endedAt).toISOString(),
+    s.noBlinkThreshold,
+    s.baselineEar,
+    ...SUMMARY_COLUMNS.map((c) => s.summary[c]),
+  ]);
+  return toCsv(header, rows);
+}
+
+// Long format: one row per record, with a `kind` column so the streams can be
+// filtered apart in a spreadsheet. Unused columns stay empty.
+export function timelineToCsv(session: StoredSession) {
+  const header = [
+    "kind",
+    "eye",
+    "startMs",
+    "endMs",
+    "leftEar",
+    "rightEar",
+    "avgEar",
+    "closedFrames",
+    "closingMs",
+    "closedMs",
+    "reopeningMs",
+    "closureDepth",
+    "asymmetry",
+    "visible",
+  ];
+  const rows: unknown[][] = [];
+
+  for (const e of session.summary.blinkEvents) {
+    rows.push([
+      "blink",
+      "both",
+      e.startMs,
+      e.endMs,
+      e.minLeftEar,
+      e.minRightEar,
+      e.minEar,
+      e.closedFrames,
+      e.closingMs,
+      e.closedMs,
+      e.reopeningMs,
+      e.closureDepth,
+      e.asymmetry,
+      "",
+    ]);
+  }
+  for (const c of session.summary.unilateralClosures) {
+    rows.push([c.kind, c.eye, c.startMs, c.endMs, "", "", "", "", "", "", "", "", "", ""]);
+  }
+  for (const b of session.summary.breakReminders) {
+    rows.push([b.taken ? "break" : "missedBreak", "", b.dueMs, b.endMs, "", "", "", "", "", "", "", "", "", ""]);
+  }
+  for (const s of session.timeline.earSamples) {
+    rows.push(["ear", "", s.t, s.t, s.left, s.right, (s.left + s.right) / 2, "", "", "", "", "", "", ""]);
+  }
+  for (const f of session.timeline.faceSegments) {
+    rows.push(["face", "", f.startMs, f.endMs, "", "", "", "", "", "", "", "", "", f.visible]);
+  }
+  for (const a of session.timeline.alertPeriods) {
+    rows.push(["alert", "", a.startMs, a.endMs, "", "", "", "", "", "", "", "", "", ""]);
+  }
+  for (const c of session.timeline.cuePeriods) {
+    rows.push(["cue", "", c.startMs, c.endMs, "", "", "", "", "", "", "", "", "", ""]);
+  }
+
+  rows.sort((a, b) => (a[2] as number) - (b[2] as number));
+  return toCsv(header, rows);
+}
+
+export function downloadFile(filename: string, text: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function exportFileName(session: StoredSession, ext: string) {
+  const stamp = new Date(session.startedAt).toISOString().replace(/[:.]/g, "-");
+  return `blink-session-${stamp}.${ext}`;
+}
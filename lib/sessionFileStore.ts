@@ -0,0 +1,105 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { normalizeSession, type StoredSession } from "./session";
+import { SESSION_ID_PATTERN } from "./sessionSchema";
+
+// Server-side session store used by the /api/sessions route handlers: one JSON
+// file per session in BLINK_SESSION_DIR (default ./data/sessions), so a lab
+// server needs nothing beyond Node itself.
+
+export type ServerSessionRecord = {
+  session: StoredSession;
+  // Label of the machine that uploaded the session, if it sent one.
+  machine: string | null;
+  receivedAt: number;
+};
+
+// List entries leave out the bulky timeline.
+export type ServerSessionListItem = {
+  id: string;
+  machine: string | null;
+  receivedAt: number;
+  startedAt: number;
+  endedAt: number;
+  noBlinkThreshold: number;
+  summary: StoredSession["summary"];
+};
+
+function storeDir() {
+  return process.env.BLINK_SESSION_DIR || join(process.cwd(), "data", "sessions");
+}
+
+function fileFor(id: string) {
+  if (!SESSION_ID_PATTERN.test(id)) throw new Error("Invalid session id.");
+  return join(storeDir(), `${id}.json`);
+}
+
+async function readRecord(file: string): Promise<ServerSessionRecord | null> {
+  try {
+    const record = JSON.parse(await readFile(file, "utf8")) as ServerSessionRecord;
+    return { ...record, session: normalizeSession(record.session) };
+  } catch {
+    return null;
+  }
+}
+
+export async function getServerSession(id: string) {
+  return readRecord(fileFor(id));
+}
+
+// Returns true when a new session was created, false when one was replaced.
+export async function putServerSession(session: StoredSession, machine: string | null) {
+  const file = fileFor(session.id);
+  await mkdir(storeDir(), { recursive: true });
+
+  const existed = (await readRecord(file)) !== null;
+  const record: ServerSessionRecord = { session, machine, receivedAt: Date.now() };
+
+  // Write then rename so readers never see a half-written file. The temp name
+  // is unique so concurrent uploads of the same session don't share one.
+  const tmp = `${file}.${randomUUID()}.tmp`;
+  try {
+    await writeFile(tmp, JSON.stringify(record));
+    await rename(tmp, file);
+  } catch (e) {
+    await rm(tmp, { force: true });
+    throw e;
+  }
+  return !existed;
+}
+
+export async function deleteServerSession(id: string) {
+  const file = fileFor(id);
+  const existed = (await readRecord(file)) !== null;
+  await rm(file, { force: true });
+  return existed;
+}
+
+export async function listServerSessions(): Promise<ServerSessionListItem[]> {
+  let names: string[];
+  try {
+    names = await readdir(storeDir());
+  } catch {
+    return [];
+  }
+
+  const items: ServerSessionListItem[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".json")) continue;
+    const record = await readRecord(join(storeDir(), name));
+    if (!record) continue;
+    const { session } = record;
+    items.push({
+      id: session.id,
+      machine: record.machine,
+      receivedAt: record.receivedAt,
+      startedAt: session.startedAt,
+      endedAt: session.endedAt,
+      noBlinkThreshold: session.noBlinkThreshold,
+      summary: session.summary,
+    });
+  }
+
+  return items.sort((a, b) => b.startedAt - a.startedAt);
+}
@@ -0,0 +1,203 @@
+import { SCORING_METRICS } from "./grading";
+import { normalizeSession, type BlinkEvent, type SessionSummary, type StoredSession } from "./session";
+
+// Strict validation of a session received from outside the app (the server
+// API and JSON imports). Fields added in later versions may be missing and are filled in by
+// normalizeSession, but any field that is present must have the right type.
+
+export const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{1,80}$/;
+
+type Obj = Record<string, unknown>;
+
+function fail(path: string, problem: string): never {
+  throw new Error(`${path} ${problem}.`);
+}
+
+function obj(value: unknown, path: string): Obj {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) fail(path, "must be an object");
+  return value as Obj;
+}
+
+function isNum(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function num(o: Obj, key: string, path: string) {
+  if (!isNum(o[key])) fail(`${path}.${key}`, "must be a number");
+}
+
+function nullableNum(o: Obj, key: string, path: string) {
+  if (o[key] !== null && !isNum(o[key])) fail(`${path}.${key}`, "must be a number or null");
+}
+
+function str(o: Obj, key: string, path: string) {
+  if (typeof o[key] !== "string") fail(`${path}.${key}`, "must be a string");
+}
+
+function nullableStr(o: Obj, key: string, path: string) {
+  if (o[key] !== null && typeof o[key] !== "string") fail(`${path}.${key}`, "must be a string or null");
+}
+
+function bool(o: Obj, key: string, path: string) {
+  if (typeof o[key] !== "boolean") fail(`${path}.${key}`, "must be true or false");
+}
+
+function oneOf(o: Obj, key: string, path: string, values: readonly string[]) {
+  if (!values.includes(o[key] as string)) {
+    fail(`${path}.${key}`, `must be one of ${values.map((v) => `"${v}"`).join(", ")}`);
+  }
+}
+
+function list(o: Obj, key: string, path: string, item: (v: Obj, p: string) => void) {
+  const value = o[key];
+  if (!Array.isArray(value)) fail(`${path}.${key}`, "must be a list");
+  value.forEach((v, i) => {
+    const p = `${path}.${key}[${i}]`;
+    item(obj(v, p), p);
+  });
+}
+
+const numbers = (...keys: string[]) => (v: Obj, p: string) => keys.forEach((k) => num(v, k, p));
+
+// Present since the first stored sessions.
+const REQUIRED_NUMBERS = [
+  "totalBlinks",
+  "totalVisibleTimeMs",
+  "totalHiddenTimeMs",
+  "totalSessionTimeMs",
+  "averageBlinksPerMinute",
+  "totalAlerts",
+  "longestNoBlinkMs",
+  "visibilityPercent",
+  "blinkCompliancePercent",
+  "blinkIntegralMs",
+] as const satisfies readonly (keyof SessionSummary)[];
+
+const REQUIRED_NULLABLE = [
+  "averageBlinkSpacingMs",
+  "blinkSpacingStdMs",
+  "score",
+] as const satisfies readonly (keyof SessionSummary)[];
+
+const OPTIONAL_NUMBERS = [
+  "incompleteBlinks",
+  "offPoseTimeMs",
+  "totalCues",
+  "cuesClearedBeforeAlert",
+  "leftEyeBlinks",
+  "rightEyeBlinks",
+  "winks",
+  "oneEyeClosures",
+  "breaksTaken",
+  "breaksMissed",
+  "selfInitiatedBreaks",
+  "processedFrames",
+  "droppedFrames",
+  "lowFpsTimeMs",
+] as const satisfies readonly (keyof SessionSummary)[];
+
+const OPTIONAL_NULLABLE = [
+  "meanBlinkDurationMs",
+  "medianBlinkDurationMs",
+  "p90BlinkDurationMs",
+  "slowBlinkFraction",
+  "meanClosingMs",
+  "meanClosedMs",
+  "meanReopeningMs",
+  "blinkAsymmetryIndex",
+  "calibrationQuality",
+  "averageFps",
+  "finalBaselineEar",
+  "baselineDriftPercent",
+  "maxBaselineDriftPercent",
+  "breakCompliancePercent",
+] as const satisfies readonly (keyof SessionSummary)[];
+
+const BLINK_EVENT_OPTIONAL_NUMBERS = [
+  "closingMs",
+  "closedMs",
+  "reopeningMs",
+  "minLeftEar",
+  "minRightEar",
+  "asymmetry",
+] as const satisfies readonly (keyof BlinkEvent)[];
+
+function checkSummary(s: Obj, path: string) {
+  for (const k of REQUIRED_NUMBERS) num(s, k, path);
+  for (const k of REQUIRED_NULLABLE) nullableNum(s, k, path);
+  for (const k of OPTIONAL_NUMBERS) if (k in s) num(s, k, path);
+  for (const k of OPTIONAL_NULLABLE) if (k in s) nullableNum(s, k, path);
+  for (const k of ["grade", "gradeReason"]) str(s, k, path);
+  for (const k of ["gradingProfileId", "gradingProfileName"]) if (k in s) str(s, k, path);
+
+  list(s, "blinkEvents", path, (e, p) => {
+    numbers("startMs", "endMs", "closedFrames", "minEar", "closureDepth")(e, p);
+    // Phases and per-eye minimums were added later; normalizeSession fills them in.
+    for (const k of BLINK_EVENT_OPTIONAL_NUMBERS) if (k in e) num(e, k, p);
+  });
+  if ("unilateralClosures" in s) {
+    list(s, "unilateralClosures", path, (c, p) => {
+      numbers("startMs", "endMs")(c, p);
+      oneOf(c, "eye", p, ["left", "right"]);
+      oneOf(c, "kind", p, ["wink", "oneEyeClosure"]);
+    });
+  }
+  if ("breakReminders" in s) {
+    list(s, "breakReminders", path, (b, p) => {
+      numbers("dueMs", "endMs")(b, p);
+      bool(b, "taken", p);
+    });
+  }
+  if ("scoreFactors" in s) {
+    list(s, "scoreFactors", path, (f, p) => {
+      oneOf(f, "metric", p, SCORING_METRICS);
+      numbers("value", "points")(f, p);
+      nullableStr(f, "band", p);
+      nullableStr(f, "reason", p);
+    });
+  }
+}
+
+function checkTimeline(t: Obj, path: string) {
+  list(t, "earSamples", path, numbers("t", "left", "right"));
+  list(t, "faceSegments", path, (f, p) => {
+    numbers("startMs", "endMs")(f, p);
+    bool(f, "visible", p);
+  });
+  list(t, "alertPeriods", path, numbers("startMs", "endMs"));
+  if ("cuePeriods" in t) {
+    list(t, "cuePeriods", path, (c, p) => {
+      numbers("startMs", "endMs")(c, p);
+      bool(c, "reachedThreshold", p);
+    });
+  }
+}
+
+export function parseStoredSession(value: unknown, path = "session"): StoredSession {
+  const s = obj(value, path);
+
+  if (typeof s.id !== "string" || !SESSION_ID_PATTERN.test(s.id)) {
+    fail(`${path}.id`, "must be 1–80 letters, digits or dashes");
+  }
+  num(s, "startedAt", path);
+  num(s, "endedAt", path);
+  num(s, "noBlinkThreshold", path);
+  nullableNum(s, "baselineEar", path);
+
+  checkSummary(obj(s.summary, `${path}.summary`), `${path}.summary`);
+  checkTimeline(obj(s.timeline, `${path}.timeline`), `${path}.timeline`);
+
+  return normalizeSession(s as unknown as StoredSession);
+}
+
+export type SessionUpload = { session: StoredSession; machine: string | null };
+
+// Body of POST /api/sessions.
+export function parseSessionUpload(value: unknown): SessionUpload {
+  const body = obj(value, "body");
+  const machine = body.machine ?? null;
+  if (machine !== null && (typeof machine !== "string" || machine.length > 80)) {
+    fail("body.machine", "must be a string of at most 80 characters");
+  }
+  return { session: parseStoredSession(body.session, "body.session"), machine: machine?.trim() || null };
+}
@@ -0,0 +1,74 @@
+import { normalizeSession, type StoredSession } from "./session";
+
+const DB_NAME = "blink-monitor";
+const DB_VERSION = 1;
+const SESSION_STORE = "sessions";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        const store = db.createObjectStore(SESSION_STORE, { keyPath: "id" });
+        store.createIndex("startedAt", "startedAt");
+      }
+    };
+
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("Failed to open session database."));
+  });
+
+  // Allow a later call to retry if opening failed (e.g. private mode quota).
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+// Settles once the transaction does: a write only counts as saved after it has
+// committed, since the transaction can still abort (e.g. over quota) after the
+// request itself succeeded.
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(SESSION_STORE, mode);
+    const req = fn(tx.objectStore(SESSION_STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? req.error ?? new Error("IndexedDB request failed"));
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction was aborted"));
+  });
+}
+
+export async function saveSession(session: StoredSession) {
+  await withStore("readwrite", (store) => store.put(session));
+}
+
+export async function listSessions() {
+  const sessions = await withStore<StoredSession[]>("readonly", (store) => store.getAll());
+  return sessions.map(normalizeSession).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getSession(id: string) {
+  const session = await withStore<StoredSession | undefined>("readonly", (store) => store.get(id));
+  return session ? normalizeSession(session) : null;
+}
+
+export async function deleteSession(id: string) {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+export async function clearSessions() {
+  await withStore("readwrite", (store) => store.clear());
+}
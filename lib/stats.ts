@@ -0,0 +1,22 @@
+export function mean(nums: number[]) {
+  if (nums.length === 0) return null;
+  return nums.reduce((a, b) => a + b, 0) / nums.length;
+}
+
+export function stdDev(nums: number[]) {
+  if (nums.length < 2) return null;
+  const avg = mean(nums);
+  if (avg === null) return null;
+  const variance = nums.reduce((acc, n) => acc + (n - avg) ** 2, 0) / nums.length;
+  return Math.sqrt(variance);
+}
+
+// Linear interpolation between closest ranks; `p` is 0-100.
+export function percentile(nums: number[], p: number) {
+  if (nums.length === 0) return null;
+  const sorted = [...nums].sort((a, b) => a - b);
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
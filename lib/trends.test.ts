@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { bucketStart, rollingAverage, type TrendBucket } from "./trends";
+
+// A bucket on the given local date with only a score.
+function bucket(year: number, month: number, day: number, score: number | null): TrendBucket {
+  return {
+    start: new Date(year, month - 1, day).getTime(),
+    sessionCount: 1,
+    values: {
+      averageBlinksPerMinute: null,
+      score,
+      totalAlerts: null,
+      longestNoBlinkMs: null,
+      blinkCompliancePercent: null,
+      meanBlinkDurationMs: null,
+    },
+  };
+}
+
+describe("rollingAverage", () => {
+  it("windows by calendar days, not by days with sessions", () => {
+    const buckets = [bucket(2026, 3, 1, 40), bucket(2026, 3, 3, 60), bucket(2026, 3, 12, 90), bucket(2026, 3, 14, 70)];
+
+    // Mar 12 and Mar 14 are more than a week after Mar 1 and Mar 3.
+    expect(rollingAverage(buckets, "score", "day", 7)).toEqual([40, 50, 90, 80]);
+    expect(rollingAverage(buckets, "score", "day", 14)).toEqual([40, 50, 190 / 3, 65]);
+  });
+
+  it("windows by calendar weeks", () => {
+    const buckets = [bucket(2026, 3, 2, 40), bucket(2026, 3, 9, 60), bucket(2026, 4, 6, 80)];
+    buckets.forEach((b) => expect(bucketStart(b.start, "week")).toBe(b.start));
+
+    expect(rollingAverage(buckets, "score", "week", 3)).toEqual([40, 50, 80]);
+  });
+
+  it("skips buckets without a value for the metric", () => {
+    const buckets = [bucket(2026, 3, 1, 40), bucket(2026, 3, 2, null), bucket(2026, 3, 3, 60)];
+
+    expect(rollingAverage(buckets, "score", "day", 7)).toEqual([40, 40, 50]);
+    expect(rollingAverage(buckets, "totalAlerts", "day", 7)).toEqual([null, null, null]);
+  });
+});
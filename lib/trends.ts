@@ -0,0 +1,107 @@
+import type { StoredSession } from "./session";
+
+export type TrendMetric =
+  | "averageBlinksPerMinute"
+  | "score"
+  | "totalAlerts"
+  | "longestNoBlinkMs"
+  | "blinkCompliancePercent"
+  | "meanBlinkDurationMs";
+
+export type TrendPeriod = "day" | "week";
+
+export type TrendBucket = {
+  start: number;
+  sessionCount: number;
+  values: Record<TrendMetric, number | null>;
+};
+
+export const TREND_METRICS: { metric: TrendMetric; label: string; format: (v: number) => string }[] = [
+  { metric: "averageBlinksPerMinute", label: "Blinks / min", format: (v) => v.toFixed(1) },
+  { metric: "score", label: "Session score", format: (v) => v.toFixed(0) },
+  { metric: "totalAlerts", label: "Alerts per session", format: (v) => v.toFixed(1) },
+  { metric: "longestNoBlinkMs", label: "Longest no-blink streak (s)", format: (v) => (v / 1000).toFixed(1) },
+  { metric: "blinkCompliancePercent", label: "Blink compliance %", format: (v) => v.toFixed(1) },
+  { metric: "meanBlinkDurationMs", label: "Mean blink duration (ms)", format: (v) => v.toFixed(0) },
+];
+
+export function bucketStart(epochMs: number, period: TrendPeriod) {
+  const d = new Date(epochMs);
+  d.setHours(0, 0, 0, 0);
+
+  if (period === "week") {
+    // Weeks start on Monday.
+    const offset = (d.getDay() + 6) % 7;
+    d.setDate(d.getDate() - offset);
+  }
+
+  return d.getTime();
+}
+
+function avg(nums: number[]) {
+  if (nums.length === 0) return null;
+  return nums.reduce((a, b) => a + b, 0) / nums.length;
+}
+
+// Blink rate and compliance are weighted by visible time so a short session does not
+// count as much as a long one; the other metrics are plain per-session averages,
+// except the streak which keeps the worst value of the period.
+function rollupBucket(start: number, sessions: StoredSession[]): TrendBucket {
+  const summaries = sessions.map((s) => s.summary);
+  const visibleMs = summaries.reduce((acc, s) => acc + s.totalVisibleTimeMs, 0);
+  const blinks = summaries.reduce((acc, s) => acc + s.totalBlinks, 0);
+  const compliantMs = summaries.reduce(
+    (acc, s) => acc + (s.blinkCompliancePercent / 100) * s.totalVisibleTimeMs,
+    0,
+  );
+
+  return {
+    start,
+    sessionCount: sessions.length,
+    values: {
+      averageBlinksPerMinute: visibleMs > 0 ? blinks / (visibleMs / 60000) : null,
+      score: avg(summaries.flatMap((s) => (s.score === null ? [] : [s.score]))),
+      totalAlerts: avg(summaries.map((s) => s.totalAlerts)),
+      longestNoBlinkMs: summaries.length > 0 ? Math.max(...summaries.map((s) => s.longestNoBlinkMs)) : null,
+      blinkCompliancePercent: visibleMs > 0 ? (compliantMs / visibleMs) * 100 : null,
+      meanBlinkDurationMs: avg(
+        summaries.flatMap((s) => (s.meanBlinkDurationMs === null ? [] : [s.meanBlinkDurationMs])),
+      ),
+    },
+  };
+}
+
+export function rollupSessions(sessions: StoredSession[], period: TrendPeriod) {
+  const groups = new Map<number, StoredSession[]>();
+
+  for (const s of sessions) {
+    const key = bucketStart(s.startedAt, period);
+    const group = groups.get(key);
+    if (group) group.push(s);
+    else groups.set(key, [s]);
+  }
+
+  return [...groups.entries()].sort((a, b) => a[0] - b[0]).map(([start, group]) => rollupBucket(start, group));
+}
+
+// Start of the period `count` periods before the one starting at `start`.
+function periodsBefore(start: number, period: TrendPeriod, count: number) {
+  const d = new Date(start);
+  d.setDate(d.getDate() - count * (period === "week" ? 7 : 1));
+  return d.getTime();
+}
+
+// Averages each bucket's value over the `window` calendar periods ending at that
+// bucket. Days or weeks without sessions count toward the window, so a gap in the
+// history shortens the average instead of pulling in older buckets.
+export function rollingAverage(buckets: TrendBucket[], metric: TrendMetric, period: TrendPeriod, window: number) {
+  return buckets.map((bucket) => {
+    const from = periodsBefore(bucket.start, period, window - 1);
+    return avg(
+      buckets.flatMap((b) => {
+        const v = b.values[metric];
+        return v !== null && b.start >= from && b.start <= bucket.start ? [v] : [];
+      }),
+    );
+  });
+}
@@ -0,0 +1,56 @@
+// Runs Face Mesh landmark inference off the main thread. This is a classic
+// worker because the Face Mesh runtime loads its WASM glue with importScripts;
+// it renders into an OffscreenCanvas of its own. Frames arrive as transferred
+// ImageBitmaps, and only the requested landmarks go back, packed as x, y, z
+// triples in a transferred Float32Array (null when no face was found).
+let mesh = null;
+let indices = [];
+let latest = null;
+
+function fail(err) {
+  postMessage({ type: "error", message: err && err.message ? err.message : String(err) });
+}
+
+function onResults(res) {
+  const lm = res.multiFaceLandmarks && res.multiFaceLandmarks[0];
+  latest = null;
+  if (lm) {
+    latest = new Float32Array(indices.length * 3);
+    indices.forEach((idx, i) => {
+      latest[i * 3] = lm[idx].x;
+      latest[i * 3 + 1] = lm[idx].y;
+      latest[i * 3 + 2] = lm[idx].z ?? Number.NaN;
+    });
+  }
+  if (res.image && typeof res.image.close === "function") res.image.close();
+}
+
+async function init(msg) {
+  importScripts(msg.script);
+  indices = msg.indices;
+  mesh = new self.FaceMesh({ locateFile: (f) => `${msg.basePath}/${f}` });
+  mesh.setOptions(msg.options);
+  mesh.onResults(onResults);
+  await mesh.initialize();
+}
+
+async function detect(bitmap) {
+  try {
+    latest = null;
+    await mesh.send({ image: bitmap });
+  } finally {
+    bitmap.close();
+  }
+  const points = latest;
+  latest = null;
+  postMessage({ type: "result", points }, points ? [points.buffer] : []);
+}
+
+onmessage = (e) => {
+  const msg = e.data;
+  if (msg.type === "init") {
+    init(msg).then(() => postMessage({ type: "ready" }), fail);
+  } else if (msg.type === "frame") {
+    detect(msg.bitmap).catch(fail);
+  }
+};
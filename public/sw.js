@@ -0,0 +1,75 @@
+// Service worker that keeps the monitor usable offline. The MediaPipe Face Mesh
+// runtime is pre-cached on install and served cache-first; app pages and build
+// assets (including the landmark worker, which is also pre-cached) are served
+// network-first with the cache as fallback.
+//
+// sw-precache.js is generated by scripts/copy-mediapipe-assets.mjs. Its cache
+// version is hashed from the pre-cached files, and browsers re-check imported
+// scripts for updates, so a changed runtime or worker replaces the old caches.
+importScripts("/sw-precache.js");
+
+const { version, faceMeshAssets, appAssets } = self.PRECACHE;
+const ASSET_CACHE = `mediapipe-${version}`;
+const APP_CACHE = `app-${version}`;
+const FACE_MESH_BASE_PATH = "/mediapipe/face_mesh";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    Promise.all([
+      caches.open(ASSET_CACHE).then((cache) => cache.addAll(faceMeshAssets)),
+      caches.open(APP_CACHE).then((cache) => cache.addAll(appAssets)),
+    ]).then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== ASSET_CACHE && k !== APP_CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const res = await fetch(request);
+  if (res.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    cache.put(request, res.clone());
+  }
+  return res;
+}
+
+async function networkFirst(request) {
+  try {
+    const res = await fetch(request);
+    if (res.ok) {
+      const cache = await caches.open(APP_CACHE);
+      cache.put(request, res.clone());
+    }
+    return res;
+  } catch (err) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+  // Server session API responses must never come from the cache.
+  if (url.pathname.startsWith("/api/")) return;
+
+  if (url.pathname.startsWith(`${FACE_MESH_BASE_PATH}/`)) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});
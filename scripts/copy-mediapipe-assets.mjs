@@ -0,0 +1,58 @@
+// Copies the MediaPipe Face Mesh runtime (script, WASM and model files) from
+// node_modules into public/ so the app can serve it itself and work offline,
+// then writes public/sw-precache.js: the files public/sw.js pre-caches and a
+// cache version hashed from their contents, so any change to them replaces
+// the caches of existing installs.
+import { createHash } from "node:crypto";
+import { copyFileSync, existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const src = join(root, "node_modules", "@mediapipe", "face_mesh");
+const publicDir = join(root, "public");
+const FACE_MESH_BASE_PATH = "/mediapipe/face_mesh";
+const dest = join(publicDir, ...FACE_MESH_BASE_PATH.split("/"));
+const ASSET_EXT = /\.(js|wasm|data|binarypb|tflite)$/;
+
+// Shared with lib/mediapipeAssets.ts.
+const FACE_MESH_ASSETS = JSON.parse(readFileSync(join(root, "lib", "faceMeshAssets.json"), "utf8"));
+// App files pre-cached next to the runtime (served network-first afterwards).
+const APP_ASSETS = ["/face-mesh-worker.js"];
+
+if (!existsSync(src)) {
+  console.warn("[copy-mediapipe-assets] @mediapipe/face_mesh is not installed; skipping.");
+  process.exit(0);
+}
+
+mkdirSync(dest, { recursive: true });
+
+const files = readdirSync(src).filter((f) => ASSET_EXT.test(f));
+for (const f of files) copyFileSync(join(src, f), join(dest, f));
+
+console.log(`[copy-mediapipe-assets] copied ${files.length} files to public${FACE_MESH_BASE_PATH}`);
+
+const missing = FACE_MESH_ASSETS.filter((f) => !files.includes(f));
+if (missing.length > 0) {
+  console.warn(`[copy-mediapipe-assets] listed in lib/faceMeshAssets.json but not installed: ${missing.join(", ")}`);
+}
+
+const faceMeshUrls = FACE_MESH_ASSETS.filter((f) => files.includes(f)).map((f) => `${FACE_MESH_BASE_PATH}/${f}`);
+const hash = createHash("sha256");
+for (const url of [...faceMeshUrls, ...APP_ASSETS]) {
+  hash.update(url);
+  hash.update(readFileSync(join(publicDir, ...url.split("/"))));
+}
+
+writeFileSync(
+  join(publicDir, "sw-precache.js"),
+  `// Generated by scripts/copy-mediapipe-assets.mjs; do not edit.
+self.PRECACHE = ${JSON.stringify(
+    { version: hash.digest("hex").slice(0, 12), faceMeshAssets: faceMeshUrls, appAssets: APP_ASSETS },
+    null,
+    2,
+  )};
+`,
+);
+
+console.log("[copy-mediapipe-assets] wrote public/sw-precache.js");
@@ -0,0 +1,49 @@
+// Local stand-in for an Event API webhook receiver. Logs every event the app
+// posts so integrations can be tried without writing a server first.
+//
+//   npm run event-receiver            # listens on http://localhost:8787/events
+//   PORT=9000 npm run event-receiver
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT) || 8787;
+
+const server = createServer((req, res) => {
+  // The app posts without a preflight, but answer one anyway for other clients.
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== "POST") {
+    res.writeHead(405).end("POST events to this endpoint.\n");
+    return;
+  }
+
+  let body = "";
+  req.setEncoding("utf8");
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    try {
+      const envelope = JSON.parse(body);
+      const { event, sessionId, sessionMs } = envelope;
+      const details = { ...event };
+      delete details.type;
+      if (details.summary) details.summary = `(${Object.keys(details.summary).length} fields)`;
+      console.log(
+        `[event-receiver] ${new Date().toISOString()} ${event?.type ?? "?"} session=${sessionId} t=${sessionMs}ms`,
+        Object.keys(details).length > 0 ? JSON.stringify(details) : "",
+      );
+      res.writeHead(204).end();
+    } catch {
+      console.warn(`[event-receiver] ignored a request that is not JSON: ${body.slice(0, 200)}`);
+      res.writeHead(400).end("Expected a JSON event envelope.\n");
+    }
+  });
+});
+
+server.listen(port, () => {
+  console.log(`[event-receiver] listening on http://localhost:${port}/events`);
+});